@@ -11,12 +11,15 @@ import { Log } from "@coinversable/validana-core";
 import { Protocol } from "./protocol/protocol";
 import { HttpProtocol } from "./protocol/http";
 import { WebsocketProtocol } from "./protocol/websocket";
+import { SseProtocol } from "./protocol/sse";
 import { Database, DBTransaction } from "./core/database";
 import { Config } from "./config";
 import { HttpServer } from "./core/httpserver";
 import { RequestHandler } from "./core/requesthandler";
-import { ServerEventGenerator, ServerEventEmitter } from "./core/events";
+import { ServerEventGenerator, ServerEventEmitter, BlockNotification } from "./core/events";
 import { Metrics } from "./core/metrics";
+import { RateLimiter } from "./core/ratelimiter";
+import { Health } from "./core/health";
 import { Cluster as ClusterType, Worker } from "cluster";
 // eslint-disable-next-line
 const Cluster: ClusterType = require("cluster");
@@ -136,6 +139,8 @@ export function start(requestHandlers = new Map<string, RequestHandler>()): void
 					Log.warn(`Worker ${worker.id} using too much memory, restarting worker.`);
 					shutdownWorker(worker.id.toString(), true);
 				}
+			} else if (typeof message === "object" && message !== null && message.type === RateLimiter.messageType) {
+				RateLimiter.receiveRequest(worker, message);
 			} else {
 				//If it was not a known message type.
 				Log.info(`Worker ${worker.id} send an unknown message.`);
@@ -237,18 +242,27 @@ export function start(requestHandlers = new Map<string, RequestHandler>()): void
 		//Protocols to handle incoming connections.
 		const protocols: Protocol[] = [];
 		let server: HttpServer | undefined;
-		if (Config.get().VSERVER_HTTPPORT === Config.get().VSERVER_WSPORT) {
+		if (Config.get().VSERVER_HTTPPORT === Config.get().VSERVER_WSPORT || Config.get().VSERVER_SSE) {
 			server = new HttpServer(Config.get().VSERVER_HTTPPORT);
 		}
 		if (Config.get().VSERVER_HTTPPORT !== 0) {
 			protocols.push(new HttpProtocol(worker, server ?? Config.get().VSERVER_HTTPPORT, requestHandlers));
 		}
+		if (Config.get().VSERVER_SSE) {
+			protocols.push(new SseProtocol(worker, server!, requestHandlers));
+		}
 		if (Config.get().VSERVER_WSPORT !== 0) {
-			protocols.push(new WebsocketProtocol(worker, server ?? Config.get().VSERVER_WSPORT, requestHandlers));
+			const wsServer = Config.get().VSERVER_HTTPPORT === Config.get().VSERVER_WSPORT ? server : undefined;
+			protocols.push(new WebsocketProtocol(worker, wsServer ?? Config.get().VSERVER_WSPORT, requestHandlers));
 		}
 
 		//If the master sends a shutdown message we do a graceful shutdown.
 		worker.on("message", async (message: any) => {
+			//Replies to rate limit requests are frequent, so handle them without logging.
+			if (message?.type === RateLimiter.messageType) {
+				RateLimiter.receiveReply(message);
+				return;
+			}
 			Log.info(`Worker ${worker.id} (pid: ${process.pid}) received message: ${message?.type}`);
 			if (message.type === "shutdown" && typeof message.graceful === "boolean") {
 				if (!isShuttingDown) {
@@ -301,11 +315,24 @@ export function start(requestHandlers = new Map<string, RequestHandler>()): void
 		//Use dedicated connection to avoid using up pool slots.
 		const connection = Database.get().getDedicatedConnection();
 		//If something goes wrong reconnect in a moment.
-		connection.on("end", () => setTimeout(() => listenNotification(), 5000));
+		connection.on("end", () => {
+			Health.setListening(false);
+			Metrics.set("listenConnected", 0);
+			if (!isShuttingDown) {
+				Metrics.increase("listenReconnects");
+			}
+			setTimeout(() => listenNotification(), 5000);
+		});
 		//When a new block is processed:
 		connection.on("notification", async (message) => {
+			Metrics.increase("listenNotifications", { channel: message.channel });
+			Metrics.set("listenLastNotification", Date.now());
 			if (message.channel === "blocks") {
-				const payload: { block?: number, ts: number, txs?: number, other: number } = JSON.parse(message.payload!);
+				const payload: Partial<BlockNotification> & { ts: number, other: number } = JSON.parse(message.payload!);
+				//Notify listeners about the new block.
+				if (payload.block !== undefined) {
+					ServerEventEmitter.get("block").emit(payload as BlockNotification);
+				}
 				//Check if there were any transactions inside the block and someone is listening for new transactions.
 				if ((payload.txs !== undefined && payload.txs > 0 || payload.other !== 0) && (
 					ServerEventEmitter.get("transactionId").hasSubscribers() ||
@@ -347,6 +374,8 @@ export function start(requestHandlers = new Map<string, RequestHandler>()): void
 		try {
 			await connection.query("LISTEN blocks;");
 			await connection.query("LISTEN validana_notification;");
+			Health.setListening(true);
+			Metrics.set("listenConnected", 1);
 		} catch (error) {
 			//Call on("end") which will setup a new connection in a moment.
 			await connection.end().catch(() => { });
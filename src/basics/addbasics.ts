@@ -7,13 +7,19 @@
  */
 
 import * as Encryption from "crypto";
-import { Log, Crypto, Transaction } from "@coinversable/validana-core";
+import * as WebSocket from "ws";
+import { Log, Crypto, Transaction, PublicKey } from "@coinversable/validana-core";
 import { RequestHandler } from "../core/requesthandler";
-import { Database, DBTransaction } from "../core/database";
+import { Database, DBTransaction, DBBlock, TransactionStatus } from "../core/database";
 import { ServerCache } from "../core/servercache";
-import { BasicRequestTypes, ProcessRequest, TxRequest, Contract, TxResponseOrPush, BasicPushTypes, TxStatusResponse, TxResponse, TxStatusesResponse } from "./basicapi";
+import {
+	BasicRequestTypes, ProcessRequest, TxRequest, Contract, TxResponseOrPush, BasicPushTypes, TxStatusResponse, TxResponse, TxStatusesResponse,
+	BlockRequest, BlocksRequest, BlockResponse, TxSearchRequest, TxSearchResponse,
+	SubscriptionRequest, SubscriptionsResponse, BlockPush, LoginRequest, ChallengeResponse, LoginResponse
+} from "./basicapi";
 import { ServerEventEmitter } from "../core/events";
 import { Metrics } from "../core/metrics";
+import { Schema } from "../core/schema";
 import { Config } from "../config";
 import { Message } from "../protocol/protocol";
 
@@ -34,6 +40,25 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 			+ "valid_till, payload, signature, public_key, create_ts) VALUES ($1, $2, $3, $4, $5, $6, $7, $8);";
 		/** Get the last processed block (if any). */
 		protected static readonly getLatestBlockTs = "SELECT processed_ts FROM basics.blocks ORDER BY block_id DESC LIMIT 1;";
+		/** The block info (excluding the transactions themselves) and the ids of all transactions in it. */
+		protected static readonly blockColumns = "block_id, version, previous_block_hash, processed_ts, transactions_amount, signature, "
+			+ "ARRAY(SELECT encode(transaction_id, 'hex') FROM basics.transactions WHERE transactions.block_id = blocks.block_id "
+			+ "ORDER BY position_in_block) AS transaction_ids";
+		/** Get a single block. */
+		protected static readonly getBlock = `SELECT ${Basics.blockColumns} FROM basics.blocks WHERE block_id = $1;`;
+		/** Get all blocks in a range. */
+		protected static readonly getBlocks = `SELECT ${Basics.blockColumns} FROM basics.blocks WHERE block_id >= $1 AND block_id <= $2 ORDER BY block_id;`;
+		/** Get the last processed block (if any). */
+		protected static readonly getLatestBlock = `SELECT ${Basics.blockColumns} FROM basics.blocks ORDER BY block_id DESC LIMIT 1;`;
+		/** The maximum number of blocks that can be requested at once. */
+		protected static readonly maxBlocks = 100;
+		/** The default and maximum number of transactions returned when searching. */
+		protected static readonly defaultSearchLimit = 50;
+		protected static readonly maxSearchLimit = 100;
+		/** The maximum number of addresses and contract types a single connection can subscribe to. */
+		protected static readonly maxSubscriptions = 100;
+		/** How long (in seconds) a login challenge is valid. */
+		protected static readonly challengeDuration = 300;
 		/** Get one or more transactions. */
 		protected static readonly getTxs = "SELECT * FROM basics.transactions WHERE transaction_id = ANY($1) AND processed_ts IS NOT NULL;";
 		/** Get one or more transaction statusus. */
@@ -46,20 +71,171 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 		/** Get the status of a single transaction. */
 		protected static readonly getTxStatus = "SELECT transaction_id, status, message FROM basics.transactions WHERE transaction_id = $1;";
 
+		//Schemas for the request data of all basic requests.
+		/** Transaction id(s) with options to wait or push. */
+		protected static readonly txRequestSchema: Schema = {
+			type: "object",
+			properties: {
+				txId: { type: ["string", "array"], format: "hex", items: { type: "string", format: "hex" }, minItems: 1 },
+				push: { type: "boolean" },
+				wait: { type: "boolean" }
+			},
+			required: ["txId"]
+		};
+		/** A new transaction. */
+		protected static readonly processSchema: Schema = {
+			type: "object",
+			properties: {
+				base64tx: { type: "string", format: "base64" },
+				createTs: { type: "integer" },
+				wait: { type: "boolean" }
+			},
+			required: ["base64tx"]
+		};
+		/** An optional contract type, for backwards compatibility also as string instead of object. */
+		protected static readonly contractsSchema: Schema = {
+			type: ["object", "string", "null"],
+			properties: { type: { type: "string" } }
+		};
+		/** A single block. */
+		protected static readonly blockSchema: Schema = {
+			type: "object",
+			properties: { blockId: { type: "integer", minimum: 0 } },
+			required: ["blockId"]
+		};
+		/** A range of blocks. */
+		protected static readonly blocksSchema: Schema = {
+			type: "object",
+			properties: {
+				from: { type: "integer", minimum: 0 },
+				to: { type: "integer", minimum: 0 }
+			},
+			required: ["from"]
+		};
+		/** Search criteria for transactions. */
+		protected static readonly txSearchSchema: Schema = {
+			type: "object",
+			properties: {
+				address: { type: "string" },
+				sender: { type: "string" },
+				receiver: { type: "string" },
+				contractType: { type: "string" },
+				//Only processed transactions are in a block, so they are the only ones that can be found.
+				status: { type: "string", enum: [TransactionStatus.Accepted, TransactionStatus.Rejected] },
+				fromTs: { type: "integer" },
+				toTs: { type: "integer" },
+				limit: { type: "integer", minimum: 1, maximum: Basics.maxSearchLimit },
+				cursor: {
+					type: "object",
+					properties: {
+						blockId: { type: "integer" },
+						positionInBlock: { type: "integer" }
+					},
+					required: ["blockId", "positionInBlock"]
+				}
+			}
+		};
+		/** Addresses, contract types and blocks to (un)subscribe. */
+		protected static readonly subscriptionSchema: Schema = {
+			type: "object",
+			properties: {
+				address: { type: ["string", "array"], format: "address", items: { type: "string", format: "address" } },
+				contractType: { type: ["string", "array"], items: { type: "string" } },
+				blocks: { type: "boolean" }
+			}
+		};
+		/** A signed login challenge. */
+		protected static readonly loginSchema: Schema = {
+			type: "object",
+			properties: {
+				publicKey: { type: "string", format: "hex" },
+				signature: { type: "string", format: "hex", minLength: 128, maxLength: 128 }
+			},
+			required: ["publicKey", "signature"]
+		};
+		/** The format and token to retrieve the metrics. */
+		protected static readonly metricsSchema: Schema = {
+			type: "object",
+			properties: {
+				format: { type: "string" },
+				token: { type: "string" }
+			},
+			required: ["format", "token"]
+		};
+
 		constructor(..._: any[]) {
 			super();
 
 			//Cache all contracts as they are frequently requested, but rarely change.
 			ServerCache.add("contracts", async () => (await Database.get().query(Basics.getContracts)).rows);
 
-			this.addMessageHandler(BasicRequestTypes.Contracts, this.contractsMessage);
-			this.addMessageHandler(BasicRequestTypes.Process, this.processMessage);
-			this.addMessageHandler(BasicRequestTypes.Time, this.timeMessage);
-			this.addMessageHandler(BasicRequestTypes.Transaction, this.transactionMessage);
-			this.addMessageHandler(BasicRequestTypes.TxStatus, this.txStatusMessage);
+			this.addMessageHandler(BasicRequestTypes.Contracts, this.contractsMessage, {
+				schema: Basics.contractsSchema, description: "Get all contracts, optionally only those of a single type.",
+				routes: [{ path: "contracts/:type", method: "GET" }]
+			});
+			this.addMessageHandler(BasicRequestTypes.Process, this.processMessage, {
+				schema: Basics.processSchema, description: "Process a new transaction, optionally waiting until it is processed."
+			});
+			this.addMessageHandler(BasicRequestTypes.Time, this.timeMessage, {
+				description: "Get the processed time of the latest block.", responseSchema: { type: "integer" }
+			});
+			this.addMessageHandler(BasicRequestTypes.Transaction, this.transactionMessage, {
+				schema: Basics.txRequestSchema, description: "Get one or more transactions, optionally waiting until they are processed.",
+				routes: [{ path: "transaction/:txId", method: "GET" }]
+			});
+			this.addMessageHandler(BasicRequestTypes.TxStatus, this.txStatusMessage, {
+				schema: Basics.txRequestSchema, description: "Get the status of one or more transactions, optionally waiting until they are processed.",
+				routes: [{ path: "txStatus/:txId", method: "GET" }]
+			});
+			this.addMessageHandler(BasicRequestTypes.Block, this.blockMessage, {
+				schema: Basics.blockSchema, description: "Get a block and the ids of the transactions in it.",
+				routes: [{ path: "block/:blockId", method: "GET" }]
+			});
+			this.addMessageHandler(BasicRequestTypes.Blocks, this.blocksMessage, {
+				schema: Basics.blocksSchema, description: `Get a range of blocks, at most ${Basics.maxBlocks} at a time.`,
+				routes: [{ path: "blocks/:from", method: "GET" }, { path: "blocks/:from/:to", method: "GET" }]
+			});
+			this.addMessageHandler(BasicRequestTypes.LatestBlock, this.latestBlockMessage, {
+				description: "Get the latest block."
+			});
+			this.addMessageHandler(BasicRequestTypes.TxSearch, this.txSearchMessage, {
+				schema: Basics.txSearchSchema, description: "Search processed transactions, newest first. Use the returned cursor to get the next page."
+			});
+			this.addMessageHandler(BasicRequestTypes.Subscribe, this.subscribeMessage, {
+				schema: Basics.subscriptionSchema, description: "Subscribe to pushes for transactions of addresses or contract types, or for new blocks."
+			});
+			this.addMessageHandler(BasicRequestTypes.Unsubscribe, this.unsubscribeMessage, {
+				schema: { ...Basics.subscriptionSchema, type: ["object", "null"] }, description: "Unsubscribe, or unsubscribe from everything without request data."
+			});
+			this.addMessageHandler(BasicRequestTypes.Subscriptions, this.subscriptionsMessage, {
+				description: "Get all active subscriptions of this connection."
+			});
 			if (Config.get().VSERVER_METRICSTOKEN !== undefined && Config.get().VSERVER_METRICSINTERVAL !== 0) {
-				this.addMessageHandler(BasicRequestTypes.Metrics, this.metricsMessage, false);
+				this.addMessageHandler(BasicRequestTypes.Metrics, this.metricsMessage, {
+					log: false, schema: Basics.metricsSchema, description: "Get the server metrics in json or prometheus format."
+				});
 			}
+			this.addMessageHandler(BasicRequestTypes.Challenge, this.challengeMessage, {
+				description: "Get a challenge to sign for logging in.", responseSchema: { type: "object", properties: { challenge: { type: "string" } } }
+			});
+			this.addMessageHandler(BasicRequestTypes.Login, this.loginMessage, {
+				schema: Basics.loginSchema, description: "Login with a signed challenge, binding the address of the key to the connection."
+			});
+			this.addMessageHandler(BasicRequestTypes.Logout, this.logoutMessage, {
+				description: "Remove the address bound to the connection."
+			});
+			//Messages of a connection that logged in are authenticated as its address.
+			this.addAuthenticator((_credentials, message) => Promise.resolve(message.session.address === undefined ? undefined : {
+				id: message.session.address, address: message.session.address
+			}));
+			this.addPushType(BasicPushTypes.Transaction, { description: "A transaction that was processed." });
+			this.addPushType(BasicPushTypes.Block, {
+				description: "A block that was processed.",
+				schema: {
+					type: "object",
+					properties: { id: { type: "integer" }, processedTs: { type: "integer" }, transactionsAmount: { type: "integer" } }
+				}
+			});
 		}
 
 		/** Turn a database transaction in one suitable for TxResponseOrPush. */
@@ -84,14 +260,21 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 			};
 		}
 
+		/** Turn a database block in one suitable for BlockResponse. */
+		protected dbBlockToBlockResponse(block: DBBlock & { transaction_ids: string[] }): BlockResponse {
+			return {
+				id: block.block_id,
+				version: block.version,
+				previousBlockHash: Crypto.binaryToHex(block.previous_block_hash),
+				processedTs: block.processed_ts,
+				transactionsAmount: block.transactions_amount,
+				signature: Crypto.binaryToHex(block.signature),
+				transactions: block.transaction_ids
+			};
+		}
+
 		/** We were requested to process a new transaction from the client. */
 		protected async processMessage(data: ProcessRequest, message: Message): Promise<TxResponseOrPush | undefined> {
-			//Check if all required arguments are there and correct
-			if (typeof data !== "object" || data === null || (data.createTs !== undefined && !Number.isSafeInteger(data.createTs)) ||
-				typeof data.base64tx !== "string" || !Crypto.isBase64(data.base64tx)) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
-
 			let tx: Transaction;
 			try {
 				tx = new Transaction(Crypto.base64ToBinary(data.base64tx));
@@ -143,21 +326,18 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 		}
 
 		/** The client requests the smart contracts that are available. */
-		protected async contractsMessage(data: { type?: string }): Promise<Contract[]> {
+		protected async contractsMessage(data: { type?: string } | string | null | undefined, message: Message): Promise<Contract[]> {
 			//Old version
-			if (typeof data !== "object") {
-				data = { type: data };
-			}
-			//Check if all data is correct
-			if (typeof data !== "object" || data === null || (data.type !== undefined && typeof data.type !== "string")) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
+			const type = typeof data === "object" && data !== null ? data.type : data ?? undefined;
 
 			try { //Get all contracts
-				if (data.type === undefined) {
-					return await ServerCache.get("contracts");
+				const contracts: Contract[] = await ServerCache.get("contracts");
+				//Clients may cache the contracts for as long as we do.
+				message.cacheDuration = ServerCache.expiresIn("contracts");
+				if (type === undefined) {
+					return contracts;
 				} else {
-					return (await ServerCache.get("contracts") as Contract[]).filter((contract) => contract.type === data.type);
+					return contracts.filter((contract) => contract.type === type);
 				}
 			} catch (error) {
 				//We were unable to retrieve the contracts, do not send a detailed error for security reasons.
@@ -168,15 +348,7 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 
 		/** The client requests the status of a certain transaction. */
 		protected async txStatusMessage(data: TxRequest, message: Message): Promise<TxStatusResponse> {
-			//Check if all data is correct
-			if (typeof data !== "object" || data === null || (data.push !== undefined && typeof data.push !== "boolean") ||
-				(data.wait !== undefined && typeof data.wait !== "boolean")) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
 			const ids = data.txId instanceof Array ? data.txId : [data.txId];
-			if (ids.length === 0 || ids.some((txId) => typeof txId !== "string" || !Crypto.isHex(txId))) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
 
 			//Register for updates for all these transactions
 			const result: TxStatusesResponse[] = [];
@@ -252,15 +424,7 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 
 		/** The client requests the status of a certain transaction. */
 		protected async transactionMessage(data: TxRequest, message: Message): Promise<TxResponse> {
-			//Check if all data is correct
-			if (typeof data !== "object" || data === null || (data.push !== undefined && typeof data.push !== "boolean") ||
-				(data.wait !== undefined && typeof data.wait !== "boolean")) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
 			const ids = data.txId instanceof Array ? data.txId : [data.txId];
-			if (ids.length === 0 || ids.some((txId) => typeof txId !== "string" || !Crypto.isHex(txId))) {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
 
 			//Register for push for all these transactions
 			const result: TxResponseOrPush[] = [];
@@ -346,13 +510,263 @@ export function addBasics<T extends new (...args: any[]) => RequestHandler>(Exte
 			}
 		}
 
+		/** The client searches for processed transactions, most recent first. */
+		protected async txSearchMessage(data: TxSearchRequest): Promise<TxSearchResponse> {
+			//Only processed transactions have a position in the blockchain that we can use as cursor.
+			const conditions = ["block_id IS NOT NULL"];
+			const params: unknown[] = [];
+			if (data.address !== undefined) {
+				params.push(data.address);
+				conditions.push(`(sender = $${params.length} OR receiver = $${params.length})`);
+			}
+			if (data.sender !== undefined) {
+				params.push(data.sender);
+				conditions.push(`sender = $${params.length}`);
+			}
+			if (data.receiver !== undefined) {
+				params.push(data.receiver);
+				conditions.push(`receiver = $${params.length}`);
+			}
+			if (data.contractType !== undefined) {
+				params.push(data.contractType);
+				conditions.push(`contract_type = $${params.length}`);
+			}
+			if (data.status !== undefined) {
+				params.push(data.status);
+				conditions.push(`status = $${params.length}`);
+			}
+			if (data.fromTs !== undefined) {
+				params.push(data.fromTs);
+				conditions.push(`processed_ts >= $${params.length}`);
+			}
+			if (data.toTs !== undefined) {
+				params.push(data.toTs);
+				conditions.push(`processed_ts <= $${params.length}`);
+			}
+			if (data.cursor !== undefined) {
+				params.push(data.cursor.blockId, data.cursor.positionInBlock);
+				conditions.push(`(block_id, position_in_block) < ($${params.length - 1}, $${params.length})`);
+			}
+			//Retrieve one more than requested to find out if there is a next page.
+			const limit = data.limit ?? Basics.defaultSearchLimit;
+			params.push(limit + 1);
+			const query = `SELECT * FROM basics.transactions WHERE ${conditions.join(" AND ")} `
+				+ `ORDER BY block_id DESC, position_in_block DESC LIMIT $${params.length};`;
+
+			let foundTxs: DBTransaction[];
+			try {
+				foundTxs = (await Database.get().query(query, params)).rows;
+			} catch (error) {
+				//We were unable to retrieve the transactions, do not send a detailed error for security reasons.
+				Log.error("Failed to search transactions", error);
+				return Promise.reject("Unable to search transactions.");
+			}
+
+			const result: TxSearchResponse = { transactions: foundTxs.slice(0, limit).map((foundTx) => this.dbTxToTxResponse(foundTx)) };
+			if (foundTxs.length > limit) {
+				const lastTx = foundTxs[limit - 1];
+				result.cursor = { blockId: lastTx.block_id!, positionInBlock: lastTx.position_in_block! };
+			}
+			return result;
+		}
+
+		/** Get the subscriptions of the connection this message was send over. */
+		protected getSubscriptions(message: Message): { addresses: Set<string>, contractTypes: Set<string>, blocks: boolean } {
+			if (message.session.basicsSubscriptions === undefined) {
+				message.session.basicsSubscriptions = { addresses: new Set<string>(), contractTypes: new Set<string>(), blocks: false };
+			}
+			return message.session.basicsSubscriptions;
+		}
+
+		/** Send a push for a transaction the connection is subscribed to. */
+		protected pushSubscription(message: Message, processedTx: DBTransaction): void {
+			//A transaction may match multiple subscriptions (for example sender and receiver), only push it once.
+			if (message.session.basicsLastSubscriptionPush !== processedTx) {
+				message.session.basicsLastSubscriptionPush = processedTx;
+				message.protocol.sendPush(message, BasicPushTypes.Transaction, this.dbTxToTxResponse(processedTx));
+			}
+		}
+
+		/** Get the addresses and contract types in the subscription request data. */
+		protected parseSubscriptionRequest(data: SubscriptionRequest): { addresses: string[], contractTypes: string[], blocks: boolean } {
+			return {
+				addresses: data.address === undefined ? [] : data.address instanceof Array ? data.address : [data.address],
+				contractTypes: data.contractType === undefined ? [] : data.contractType instanceof Array ? data.contractType : [data.contractType],
+				blocks: data.blocks === true
+			};
+		}
+
+		/** The client wants to receive a push for every processed transaction of certain addresses or contract types. */
+		protected async subscribeMessage(data: SubscriptionRequest, message: Message): Promise<SubscriptionsResponse> {
+			const request = this.parseSubscriptionRequest(data);
+			if (!message.protocol.canPush()) {
+				return Promise.reject("Subscribing is only possible for connections that support push messages.");
+			}
+			const subscriptions = this.getSubscriptions(message);
+			const newAddresses = request.addresses.filter((address) => !subscriptions.addresses.has(address));
+			const newContractTypes = request.contractTypes.filter((contractType) => !subscriptions.contractTypes.has(contractType));
+			if (subscriptions.addresses.size + subscriptions.contractTypes.size + newAddresses.length + newContractTypes.length > Basics.maxSubscriptions) {
+				return Promise.reject(`Too many subscriptions, at most ${Basics.maxSubscriptions} are allowed per connection.`);
+			}
+
+			for (const address of newAddresses) {
+				subscriptions.addresses.add(address);
+				ServerEventEmitter.get("transactionAddress").subscribe(message, (processedTx) => this.pushSubscription(message, processedTx), address);
+			}
+			for (const contractType of newContractTypes) {
+				subscriptions.contractTypes.add(contractType);
+				ServerEventEmitter.get("transactionContract").subscribe(message, (processedTx) => this.pushSubscription(message, processedTx), contractType);
+			}
+			if (request.blocks && !subscriptions.blocks) {
+				subscriptions.blocks = true;
+				ServerEventEmitter.get("block").subscribe(message, (block) => message.protocol.sendPush(message, BasicPushTypes.Block, {
+					id: block.block,
+					processedTs: block.ts,
+					transactionsAmount: block.txs ?? 0
+				} as BlockPush));
+			}
+			return this.subscriptionsMessage(undefined, message);
+		}
+
+		/** The client no longer wants to receive pushes for certain addresses or contract types, or for none if nothing is specified. */
+		protected async unsubscribeMessage(data: SubscriptionRequest | null | undefined, message: Message): Promise<SubscriptionsResponse> {
+			//No data means unsubscribe from everything.
+			const subscriptions = this.getSubscriptions(message);
+			const request = data === undefined || data === null ? {
+				addresses: Array.from(subscriptions.addresses),
+				contractTypes: Array.from(subscriptions.contractTypes),
+				blocks: true
+			} : this.parseSubscriptionRequest(data);
+
+			for (const address of request.addresses) {
+				if (subscriptions.addresses.delete(address)) {
+					ServerEventEmitter.get("transactionAddress").unsubscribe(message, address);
+				}
+			}
+			for (const contractType of request.contractTypes) {
+				if (subscriptions.contractTypes.delete(contractType)) {
+					ServerEventEmitter.get("transactionContract").unsubscribe(message, contractType);
+				}
+			}
+			if (request.blocks && subscriptions.blocks) {
+				subscriptions.blocks = false;
+				ServerEventEmitter.get("block").unsubscribe(message);
+			}
+			return this.subscriptionsMessage(undefined, message);
+		}
+
+		/** The client requests all addresses and contract types it is subscribed to. */
+		protected subscriptionsMessage(_: unknown, message: Message): Promise<SubscriptionsResponse> {
+			const subscriptions = this.getSubscriptions(message);
+			return Promise.resolve({
+				addresses: Array.from(subscriptions.addresses),
+				contractTypes: Array.from(subscriptions.contractTypes),
+				blocks: subscriptions.blocks
+			});
+		}
+
+		/** The challenge for a login of this connection. */
+		protected getChallenge(message: Message): string {
+			return `Validana login for ${message.version}: ${message.session.basicsChallenge.nonce}`;
+		}
+
+		/** The client wants to login and needs a challenge to sign. */
+		protected challengeMessage(_: unknown, message: Message): Promise<ChallengeResponse> {
+			//Only websocket connections have a session that lasts longer than a single request.
+			if (!(message.response instanceof WebSocket)) {
+				return Promise.reject("Login is only possible for websocket connections.");
+			}
+			message.session.basicsChallenge = {
+				nonce: Crypto.binaryToHex(Encryption.randomBytes(32)),
+				validTill: Date.now() + Basics.challengeDuration * 1000
+			};
+			return Promise.resolve({ challenge: this.getChallenge(message) });
+		}
+
+		/** The client signed the challenge, bind its address to the connection if the signature is valid. */
+		protected loginMessage(data: LoginRequest, message: Message): Promise<LoginResponse> {
+			const challenge: { nonce: string, validTill: number } | undefined = message.session.basicsChallenge;
+			if (challenge === undefined || challenge.validTill < Date.now()) {
+				return Promise.reject("No valid challenge, request a new challenge first.");
+			}
+			const challengeString = this.getChallenge(message);
+			//A challenge can only be used once.
+			message.session.basicsChallenge = undefined;
+
+			const publicKeyBuffer = Crypto.hexToBinary(data.publicKey);
+			if (!PublicKey.isValidPublic(publicKeyBuffer)) {
+				return Promise.reject("Invalid public key.");
+			}
+			const publicKey = new PublicKey(publicKeyBuffer, true);
+			if (!publicKey.verify(Crypto.utf8ToBinary(challengeString), Crypto.hexToBinary(data.signature))) {
+				message.statusCode = 401;
+				return Promise.reject("Invalid signature.");
+			}
+			message.session.address = publicKey.getAddress();
+			//The authenticators have already run for this message.
+			message.principal = { id: message.session.address, address: message.session.address };
+			return Promise.resolve({ address: message.session.address });
+		}
+
+		/** The client no longer wants its address bound to the connection. */
+		protected logoutMessage(_: unknown, message: Message): Promise<void> {
+			message.session.address = undefined;
+			return Promise.resolve();
+		}
+
+		/** The client requests a single block. */
+		protected async blockMessage(data: BlockRequest, message: Message): Promise<BlockResponse> {
+			let result: DBBlock & { transaction_ids: string[] } | undefined;
+			try {
+				result = (await Database.get().query(Basics.getBlock, [data.blockId])).rows[0];
+			} catch (error) {
+				Log.error("Unable to retrieve block.", error);
+				return Promise.reject("Unable to retrieve block.");
+			}
+			if (result === undefined) {
+				message.statusCode = 404;
+				return Promise.reject("Block not found.");
+			}
+			return this.dbBlockToBlockResponse(result);
+		}
+
+		/** The client requests a range of blocks. */
+		protected async blocksMessage(data: BlocksRequest): Promise<BlockResponse[]> {
+			if (data.to !== undefined && data.to < data.from) {
+				return Promise.reject("Missing or invalid request data parameters: data.to should be at least data.from.");
+			}
+			const to = data.to ?? data.from + Basics.maxBlocks - 1;
+			if (to - data.from >= Basics.maxBlocks) {
+				return Promise.reject(`Requested too many blocks, at most ${Basics.maxBlocks} blocks can be requested at once.`);
+			}
+
+			try {
+				return (await Database.get().query(Basics.getBlocks, [data.from, to])).rows.map((block) => this.dbBlockToBlockResponse(block));
+			} catch (error) {
+				Log.error("Unable to retrieve blocks.", error);
+				return Promise.reject("Unable to retrieve blocks.");
+			}
+		}
+
+		/** The client requests the most recent block. */
+		protected async latestBlockMessage(): Promise<BlockResponse> {
+			let result: DBBlock & { transaction_ids: string[] } | undefined;
+			try {
+				result = (await Database.get().query(Basics.getLatestBlock)).rows[0];
+			} catch (error) {
+				Log.error("Unable to retrieve latest block.", error);
+				return Promise.reject("Unable to retrieve latest block.");
+			}
+			if (result === undefined) {
+				//If our database is still empty.
+				return Promise.reject("No existing blocks found.");
+			}
+			return this.dbBlockToBlockResponse(result);
+		}
+
 		/** The client request the metrics of this server. */
 		protected async metricsMessage(data: { format: string, token: string }, message: Message): Promise<any> {
 			message.log = false;
-			//Check if all required arguments are there and correct
-			if (typeof data !== "object" || data === null || typeof data.format !== "string" || typeof data.token !== "string") {
-				return Promise.reject("Missing or invalid request data parameters.");
-			}
 
 			//You may only view the metrics if you provide the correct token.
 			const configToken = Config.get().VSERVER_METRICSTOKEN!;
@@ -13,6 +13,17 @@
  * Transaction: TxRequest, TxResponseOrPush | undefined, may result in pushtransaction: Transaction with data TxResponseOrPush
  * TxStatus: TxRequest, TxStatusResponse, may result in pushtransaction: Transaction with data TxResponseOrPush
  * Time: no request data, number | undefined
+ * Block: BlockRequest, BlockResponse
+ * Blocks: BlocksRequest, BlockResponse[]
+ * LatestBlock: no request data, BlockResponse
+ * TxSearch: TxSearchRequest, TxSearchResponse
+ * Subscribe: SubscriptionRequest, SubscriptionsResponse, results in push Transaction with data TxResponseOrPush
+ *  and push Block with data BlockPush (websocket only)
+ * Unsubscribe: SubscriptionRequest, SubscriptionsResponse
+ * Subscriptions: no request data, SubscriptionsResponse
+ * Challenge: no request data, ChallengeResponse (websocket only)
+ * Login: LoginRequest, LoginResponse (websocket only)
+ * Logout: no request data, no response data
  */
 export enum BasicRequestTypes {
 	Process = "process",
@@ -20,21 +31,34 @@ export enum BasicRequestTypes {
 	Transaction = "transaction",
 	TxStatus = "txStatus",
 	Time = "time",
-	Metrics = "metrics"
+	Metrics = "metrics",
+	Block = "block",
+	Blocks = "blocks",
+	LatestBlock = "latestBlock",
+	TxSearch = "txSearch",
+	Subscribe = "subscribe",
+	Unsubscribe = "unsubscribe",
+	Subscriptions = "subscriptions",
+	Challenge = "challenge",
+	Login = "login",
+	Logout = "logout"
 }
 
 /**
  * Possible push actions with their data:
  * Transaction: TxResponseOrPush
+ * Block: BlockPush
  */
 export enum BasicPushTypes {
-	Transaction = "transaction"
+	Transaction = "transaction",
+	Block = "block"
 }
 
 //The possible request, reponse and push data you can expect.
-export type RequestData = ProcessRequest | TxRequest | undefined;
-export type ReponseData = Contract[] | TxResponseOrPush | undefined;
-export type PushData = TxResponseOrPush;
+export type RequestData = ProcessRequest | TxRequest | BlockRequest | BlocksRequest | TxSearchRequest | SubscriptionRequest | LoginRequest | undefined;
+export type ReponseData = Contract[] | TxResponseOrPush | BlockResponse | BlockResponse[] | TxSearchResponse | SubscriptionsResponse | ChallengeResponse
+| LoginResponse | undefined;
+export type PushData = TxResponseOrPush | BlockPush;
 
 export interface ProcessRequest {
 	/** The transaction (in base64 format, same as transaction inside a block) */
@@ -58,6 +82,61 @@ export interface TxRequest {
 	wait?: boolean;
 }
 
+export interface BlockRequest {
+	/** The id of the block. */
+	blockId: number;
+}
+
+export interface BlocksRequest {
+	/** The id of the first block. */
+	from: number;
+	/** The id of the last block (inclusive). Defaults to the maximum amount of blocks that can be requested at once. */
+	to?: number;
+}
+
+export interface TxSearchRequest {
+	/** Only transactions where this address is the sender or receiver. */
+	address?: string;
+	/** Only transactions with this sender. */
+	sender?: string;
+	/** Only transactions with this receiver. */
+	receiver?: string;
+	/** Only transactions of this contract type. */
+	contractType?: string;
+	/** Only transactions with this status, either accepted or rejected. */
+	status?: string;
+	/** Only transactions processed at or after this time. */
+	fromTs?: number;
+	/** Only transactions processed at or before this time. */
+	toTs?: number;
+	/** Continue after this cursor, as returned by a previous search. */
+	cursor?: TxCursor;
+	/** The maximum number of transactions to return. Defaults to 50, at most 100. */
+	limit?: number;
+}
+
+/** The position of a transaction in the blockchain, used for continuing a search. */
+export interface TxCursor {
+	blockId: number;
+	positionInBlock: number;
+}
+
+export interface SubscriptionRequest {
+	/** Address(es) for which to receive all processed transactions where it is the sender or receiver. */
+	address?: string | string[];
+	/** Contract type(s) for which to receive all processed transactions. */
+	contractType?: string | string[];
+	/** Receive a push for every new block? */
+	blocks?: boolean;
+}
+
+export interface LoginRequest {
+	/** The public key (hex) of the private key that signed the challenge. */
+	publicKey: string;
+	/** The signature (hex) of the challenge (as utf8). */
+	signature: string;
+}
+
 export interface Contract {
 	type: string;
 	hash: string;
@@ -104,4 +183,47 @@ export interface TxResponseOrPush {
 	processedTs: number | null;
 	//Optional info once processed
 	receiver: string | null;
+}
+export interface BlockResponse {
+	id: number;
+	version: number;
+	previousBlockHash: string;
+	processedTs: number;
+	transactionsAmount: number;
+	signature: string;
+	/** The ids (hex) of all transactions in this block, in order of their position in the block. */
+	transactions: string[];
+}
+
+export interface TxSearchResponse {
+	/** The transactions found, most recent first. */
+	transactions: TxResponseOrPush[];
+	/** The cursor to request the next page with, or undefined if there are no more results. */
+	cursor?: TxCursor;
+}
+
+export interface SubscriptionsResponse {
+	/** All addresses this connection is subscribed to. */
+	addresses: string[];
+	/** All contract types this connection is subscribed to. */
+	contractTypes: string[];
+	/** Whether this connection is subscribed to new blocks. */
+	blocks: boolean;
+}
+
+export interface ChallengeResponse {
+	/** The challenge to sign (as utf8) with the private key to login with. Can be used once. */
+	challenge: string;
+}
+
+export interface LoginResponse {
+	/** The address that is now bound to the connection. */
+	address: string;
+}
+
+export interface BlockPush {
+	id: number;
+	processedTs: number;
+	/** The number of transactions in the block. */
+	transactionsAmount: number;
 }
\ No newline at end of file
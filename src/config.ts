@@ -28,6 +28,14 @@ export interface ConfigValues {
 	//If not provided (or METRICSINTERVAL is 0) it is not possible to request metrics from the basics api.
 	//You can of course create a custom handler and implement your own access control instead.
 	VSERVER_METRICSTOKEN: string | undefined;
+	//Rate limit budgets per message type (or * for all other types) in json format: {"type": {"capacity": number, "refill": number}}
+	//Every request takes a token, each client can have at most capacity tokens and gains refill tokens per second.
+	VSERVER_RATELIMIT: string | undefined;
+	VSERVER_RATELIMITKEY: "ip" | "apikey" | "session"; //How to identify clients for rate limiting. apikey uses the authenticated principal (or ip if not authenticated).
+	//Cors policy per api version (or * for all other versions) in json format: {"version": {"origins": string[], "credentials": boolean,
+	//"exposedHeaders": string[], "maxAge": number, "methods": string[], "allowedHeaders": string[]}}, all fields are optional.
+	//Origins are exact or use * as wildcard, all origins (*) cannot be used with credentials. Defaults to allowing all origins without credentials.
+	VSERVER_CORS: string | undefined;
 
 	VSERVER_LOGLEVEL: number; //The log level we use.
 	VSERVER_DBPORT: number; //Database port
@@ -40,9 +48,16 @@ export interface ConfigValues {
 	VSERVER_WORKERS: number; //How many workers do we want to have (0 or lower is all processing cores minus the number, 1+ is that many workers)
 	VSERVER_MAXPAYLOADSIZE: number; //The maximum size (in bytes) a websocket/rest request may be before the server drops the connection. 0 = unlimited
 	VSERVER_METRICSINTERVAL: number; //How often should it update the metrics. Defaults to 0 (off). Best set to scrape interval.
+	VSERVER_COMPRESSIONTHRESHOLD: number; //The minimum size (in bytes) of a http response/websocket message before it is compressed.
+	VSERVER_MAXBLOCKAGE: number; //How old (in seconds) the latest block may be before the server is not ready. Defaults to 0 (no limit).
+	VSERVER_MAXBATCHSIZE: number; //The maximum number of requests a single batch request may contain.
+	VSERVER_BATCHCONCURRENCY: number; //How many requests of a single batch request are handled at the same time.
 
 	VSERVER_TLS: boolean; //Whether to use tls or not
 	VSERVER_CACHING: boolean; //Whether to use caching or not
+	VSERVER_SSE: boolean; //Whether to accept server-sent events requests on the http port or not
+	VSERVER_COMPRESSION: boolean; //Whether to compress http responses (brotli or gzip) if the client accepts it
+	VSERVER_WSCOMPRESSION: boolean; //Whether to allow websocket connections to use permessage-deflate
 
 	/** @deprecated Use the new VSERVER_HTTPPORT */
 	VSERVER_RESTPORT: number; //Port to listen to connections to for http connections.
@@ -359,6 +374,26 @@ Config.addNumberConfig("VSERVER_METRICSINTERVAL", 0, (value) => {
 		throw new Error(`Invalid metrics interval: ${value}, should be a positive number (or 0 for never).`);
 	}
 });
+Config.addNumberConfig("VSERVER_COMPRESSIONTHRESHOLD", 1024, (value) => {
+	if (value < 0) {
+		throw new Error(`Invalid compression threshold: ${value}, should be 0 or higher.`);
+	}
+});
+Config.addNumberConfig("VSERVER_MAXBLOCKAGE", 0, (value) => {
+	if (value < 0) {
+		throw new Error(`Invalid max block age: ${value}, should be a positive number (or 0 for no limit).`);
+	}
+});
+Config.addNumberConfig("VSERVER_MAXBATCHSIZE", 100, (value) => {
+	if (value < 1) {
+		throw new Error(`Invalid max batch size: ${value}, should be at least 1.`);
+	}
+});
+Config.addNumberConfig("VSERVER_BATCHCONCURRENCY", 10, (value) => {
+	if (value < 1) {
+		throw new Error(`Invalid batch concurrency: ${value}, should be at least 1.`);
+	}
+});
 Config.addNumberConfig("VSERVER_WORKERS", -1);
 Config.addStringConfig("VSERVER_DBUSER", "backend");
 Config.addStringConfig("VSERVER_DBNAME", "blockchain");
@@ -369,6 +404,65 @@ Config.addStringConfig("VSERVER_KEYPATH", undefined);
 Config.addStringConfig("VSERVER_CERTPATH", undefined);
 Config.addStringConfig("VSERVER_LOGFORMAT", undefined);
 Config.addStringConfig("VSERVER_METRICSTOKEN", undefined);
+Config.addStringConfig("VSERVER_RATELIMIT", undefined, (value) => {
+	if (value !== undefined) {
+		let budgets;
+		try {
+			budgets = JSON.parse(value);
+		} catch (error) {
+			throw new Error(`Invalid rate limit: ${value}: ${(error as Error).message}`);
+		}
+		if (typeof budgets !== "object" || budgets === null) {
+			throw new Error(`Invalid rate limit: ${value}, expected an object.`);
+		}
+		for (const type of Object.keys(budgets)) {
+			const budget = budgets[type];
+			if (typeof budget !== "object" || budget === null || typeof budget.capacity !== "number" || budget.capacity < 1
+				|| typeof budget.refill !== "number" || budget.refill <= 0) {
+				throw new Error(`Invalid rate limit for type ${type}, expected a capacity of at least 1 and a positive refill.`);
+			}
+		}
+	}
+});
+Config.addStringConfig("VSERVER_RATELIMITKEY", "ip", (value) => {
+	if (value !== "ip" && value !== "apikey" && value !== "session") {
+		throw new Error(`Invalid rate limit key: ${value}, should be ip, apikey or session.`);
+	}
+});
+Config.addStringConfig("VSERVER_CORS", undefined, (value) => {
+	if (value !== undefined) {
+		let policies;
+		try {
+			policies = JSON.parse(value);
+		} catch (error) {
+			throw new Error(`Invalid cors: ${value}: ${(error as Error).message}`);
+		}
+		if (typeof policies !== "object" || policies === null) {
+			throw new Error(`Invalid cors: ${value}, expected an object.`);
+		}
+		for (const version of Object.keys(policies)) {
+			const policy = policies[version];
+			if (typeof policy !== "object" || policy === null) {
+				throw new Error(`Invalid cors for version ${version}, expected an object.`);
+			}
+			for (const key of ["origins", "exposedHeaders", "methods", "allowedHeaders"]) {
+				if (policy[key] !== undefined && (!(policy[key] instanceof Array) || (policy[key] as unknown[]).some((item) => typeof item !== "string"))) {
+					throw new Error(`Invalid cors ${key} for version ${version}, expected an array of strings.`);
+				}
+			}
+			if (policy.credentials !== undefined && typeof policy.credentials !== "boolean") {
+				throw new Error(`Invalid cors credentials for version ${version}, expected a boolean.`);
+			}
+			//The default origins allow all origins.
+			if (policy.credentials === true && (policy.origins === undefined || (policy.origins as string[]).includes("*"))) {
+				throw new Error(`Invalid cors for version ${version}, credentials cannot be allowed for all origins (*).`);
+			}
+			if (policy.maxAge !== undefined && (!Number.isSafeInteger(policy.maxAge) || policy.maxAge < 0)) {
+				throw new Error(`Invalid cors maxAge for version ${version}, expected a positive number.`);
+			}
+		}
+	}
+});
 Config.addStringConfig("VSERVER_API", undefined, (value) => {
 	if (value !== undefined) {
 		let apis;
@@ -395,6 +489,13 @@ Config.addStringConfig("VSERVER_API", undefined, (value) => {
 });
 Config.addBoolConfig("VSERVER_METRICSDEFAULT", true);
 Config.addBoolConfig("VSERVER_CACHING", true);
+Config.addBoolConfig("VSERVER_COMPRESSION", true);
+Config.addBoolConfig("VSERVER_WSCOMPRESSION", false);
+Config.addBoolConfig("VSERVER_SSE", false, (value, config) => {
+	if (value && config.VSERVER_HTTPPORT === 0) {
+		throw new Error("Invalid http port, using server-sent events requires a http port.");
+	}
+});
 Config.addBoolConfig("VSERVER_TLS", false, (value, config) => {
 	if (value) {
 		if (config.VSERVER_KEYPATH === undefined || config.VSERVER_CERTPATH === undefined) {
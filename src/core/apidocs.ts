@@ -0,0 +1,177 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { RequestHandler } from "./requesthandler";
+import { Schema } from "./schema";
+
+/** A generated api document. Only the parts we generate are typed. */
+export interface ApiDocument {
+	[key: string]: unknown;
+}
+
+/**
+ * Generates api documentation for an api version from the message handlers and push types of its request handler.
+ * The OpenAPI document describes the http routes, the AsyncAPI document the websocket messages and pushes.
+ * The HttpProtocol serves them with a get request to /version/openapi.json and /version/asyncapi.json.
+ */
+export class ApiDocs {
+	/** The request type (after the version in the url) of the OpenAPI document. */
+	public static readonly openApiType = "openapi.json";
+	/** The request type (after the version in the url) of the AsyncAPI document. */
+	public static readonly asyncApiType = "asyncapi.json";
+
+	/** Schema for request or response data without a schema. */
+	private static readonly anySchema: Schema = {};
+	/** Schema for the error message of a failed request. */
+	private static readonly errorSchema: Schema = { type: "string", description: "Why the request failed." };
+	/** The ways a message that requires authentication can be authenticated (cookies depend on the authenticators). */
+	private static readonly security = [{ apiKey: [] }, { bearer: [] }];
+
+	/**
+	 * Generate an OpenAPI 3.1 document for the http routes of an api version.
+	 * @param version The api version, which is the first part of all routes.
+	 * @param requestHandler The request handler for this api version.
+	 */
+	public static openApi(version: string, requestHandler: RequestHandler): ApiDocument {
+		const paths: { [path: string]: unknown } = {};
+		const messageTypes = requestHandler.getMessageTypes();
+		for (const [type, options] of messageTypes) {
+			const responses = {
+				200: { description: "Success", content: { "application/json": { schema: options.responseSchema ?? ApiDocs.anySchema } } },
+				400: { description: "Invalid request", content: { "text/plain": { schema: ApiDocs.errorSchema } } },
+				500: { description: "Error occured during request", content: { "text/plain": { schema: ApiDocs.errorSchema } } }
+			};
+			const security = options.auth === true ? ApiDocs.security : undefined;
+			paths[`/${version}/${type}`] = {
+				description: options.description,
+				get: {
+					operationId: `get_${type}`,
+					summary: options.description,
+					description: "The request data is send as json in the query string, for example: ?{\"key\":\"value\"}",
+					security,
+					responses
+				},
+				post: {
+					operationId: `post_${type}`,
+					summary: options.description,
+					requestBody: { content: { "application/json": { schema: options.schema ?? ApiDocs.anySchema } } },
+					security,
+					responses
+				}
+			};
+		}
+
+		for (const route of requestHandler.getRoutes()) {
+			const options = messageTypes.get(route.type)!;
+			const parameters = route.path.split("/").filter((part) => part.startsWith(":")).map((part) => ({
+				name: part.slice(1),
+				in: "path",
+				required: true,
+				schema: options.schema?.properties?.[part.slice(1)] ?? { type: "string" }
+			}));
+			const path = `/${version}/${route.path.replace(/:([^\/]+)/g, "{$1}")}`;
+			const operation = {
+				summary: options.description,
+				description: `Same as ${route.type}, with the path parameters added to the request data.`,
+				parameters,
+				security: options.auth === true ? ApiDocs.security : undefined,
+				responses: (paths[`/${version}/${route.type}`] as { get: { responses: unknown } }).get.responses
+			};
+			const pathItem = (paths[path] ?? {}) as { [method: string]: unknown };
+			for (const method of route.method === undefined ? ["get", "post"] : [route.method.toLowerCase()]) {
+				pathItem[method] = Object.assign({ operationId: `${method}_${route.path.replace(/[^\w]/g, "_")}` }, operation);
+			}
+			paths[path] = pathItem;
+		}
+
+		return {
+			openapi: "3.1.0",
+			info: { title: `Validana Server api ${version}`, version },
+			paths,
+			components: {
+				securitySchemes: {
+					apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+					bearer: { type: "http", scheme: "bearer" }
+				}
+			}
+		};
+	}
+
+	/**
+	 * Generate an AsyncAPI 2.6 document for the websocket messages and pushes of an api version.
+	 * @param version The api version, which is the path to connect to.
+	 * @param requestHandler The request handler for this api version.
+	 */
+	public static asyncApi(version: string, requestHandler: RequestHandler): ApiDocument {
+		const messages: { [name: string]: unknown } = {};
+		const requests: Array<{ $ref: string }> = [];
+		const responses: Array<{ $ref: string }> = [];
+
+		for (const [type, options] of requestHandler.getMessageTypes()) {
+			messages[`request_${type}`] = {
+				name: type,
+				summary: options.description,
+				payload: {
+					type: "object",
+					properties: {
+						type: { type: "string", enum: [type] },
+						id: { type: "string", description: "Send back with the response, to match it with the request." },
+						data: options.schema ?? ApiDocs.anySchema
+					},
+					required: ["type"]
+				}
+			};
+			messages[`response_${type}`] = {
+				name: type,
+				summary: `Response to a ${type} request.`,
+				payload: {
+					type: "object",
+					properties: {
+						id: { type: "string" },
+						status: { type: "integer" },
+						data: options.responseSchema ?? ApiDocs.anySchema,
+						error: ApiDocs.errorSchema
+					},
+					required: ["status"]
+				}
+			};
+			requests.push({ $ref: `#/components/messages/request_${type}` });
+			responses.push({ $ref: `#/components/messages/response_${type}` });
+		}
+		for (const [pushType, options] of requestHandler.getPushTypes()) {
+			messages[`push_${pushType}`] = {
+				name: pushType,
+				summary: options.description,
+				payload: {
+					type: "object",
+					properties: {
+						pushType: { type: "string", enum: [pushType] },
+						status: { type: "integer" },
+						data: options.schema ?? ApiDocs.anySchema
+					},
+					required: ["pushType", "status"]
+				}
+			};
+			responses.push({ $ref: `#/components/messages/push_${pushType}` });
+		}
+
+		return {
+			asyncapi: "2.6.0",
+			info: { title: `Validana Server api ${version}`, version },
+			defaultContentType: "application/json",
+			channels: {
+				[`/${version}`]: {
+					bindings: { ws: {} },
+					publish: { operationId: "request", message: { oneOf: requests } },
+					subscribe: { operationId: "responseOrPush", message: { oneOf: responses } }
+				}
+			},
+			components: { messages }
+		};
+	}
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { IncomingMessage } from "http";
+import { Message } from "../protocol/protocol";
+import { RequestHandler } from "./requesthandler";
+
+/** The authenticated client of a message, as returned by an authenticator. */
+export interface Principal {
+	/** Identifies the client, for example a user id or the name of an api key. */
+	id: string;
+	[key: string]: unknown;
+}
+
+/** The credentials a client send with its request. For websocket connections these are from the upgrade request. */
+export interface Credentials {
+	/** From the x-api-key header. */
+	apiKey?: string;
+	/** From the 'Authorization: Bearer <token>' header. */
+	bearerToken?: string;
+	/** From the cookie header. */
+	cookies: Map<string, string>;
+}
+
+/**
+ * Checks the credentials of a message.
+ * Resolves with the principal if they are valid or undefined if not (or if they are not for this authenticator).
+ * Rejecting will fail the request, with status code 401 unless another status code was set.
+ */
+export type Authenticator = (credentials: Credentials, message: Message) => Promise<Principal | undefined>;
+
+/** Helpers for authenticating messages, see RequestHandler.addAuthenticator(). */
+export class Authentication {
+	/** Get the credentials of a request. */
+	public static getCredentials(request: IncomingMessage): Credentials {
+		const credentials: Credentials = { cookies: RequestHandler.cookieStringToMap(request.headers.cookie) };
+		const apiKey = request.headers["x-api-key"];
+		if (typeof apiKey === "string") {
+			credentials.apiKey = apiKey;
+		}
+		const authorization = request.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+		if (authorization !== undefined && authorization !== null) {
+			credentials.bearerToken = authorization[1];
+		}
+		return credentials;
+	}
+
+	/**
+	 * Authenticate a message, trying the authenticators in order until one returns a principal.
+	 * @returns The principal or undefined if no authenticator accepted the credentials.
+	 */
+	public static async authenticate(authenticators: Authenticator[], message: Message): Promise<Principal | undefined> {
+		const credentials = Authentication.getCredentials(message.request);
+		for (const authenticator of authenticators) {
+			try {
+				const principal = await authenticator(credentials, message);
+				if (principal !== undefined) {
+					return principal;
+				}
+			} catch (error) {
+				//Differentiate between internal errors and rejects caused by bad credentials.
+				if (!(error instanceof Error) && message.statusCode === undefined) {
+					message.statusCode = 401;
+				}
+				throw error;
+			}
+		}
+		return undefined;
+	}
+}
\ No newline at end of file
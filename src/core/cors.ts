@@ -0,0 +1,102 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { IncomingMessage } from "http";
+import { Config } from "../config";
+
+/** The cross-origin resource sharing policy of an api version. */
+export interface CorsPolicy {
+	/** The allowed origins, exact or with * as wildcard, such as https://*.example.com. A single * allows all origins, but not with credentials. */
+	origins: string[];
+	/** Allow requests with credentials (cookies)? */
+	credentials: boolean;
+	/** Response headers the client may read, apart from the standard ones. */
+	exposedHeaders: string[];
+	/** How long (in seconds) the result of a preflight request may be cached. */
+	maxAge: number;
+	methods: string[];
+	allowedHeaders: string[];
+}
+
+/**
+ * Determines the cors headers of http responses, using the policy in VSERVER_CORS for the api version of the request.
+ * VSERVER_CORS contains a (partial) policy per api version, or * for all other versions.
+ */
+export class Cors {
+	/** The policy if none is configured, which allows requests from all origins without credentials. */
+	public static readonly defaultPolicy: Readonly<CorsPolicy> = {
+		origins: ["*"],
+		credentials: false,
+		exposedHeaders: [],
+		maxAge: 86400,
+		methods: ["POST", "GET"],
+		allowedHeaders: ["origin", "content-type", "accept", "authorization", "x-api-key"]
+	};
+	/** The policy and the origins as regular expressions, for each api version. */
+	private static policies: Map<string, { policy: CorsPolicy, origins: RegExp[] }> | undefined;
+
+	/** Get the policy for an api version. */
+	public static getPolicy(version?: string): Readonly<CorsPolicy> {
+		return Cors.getPolicies().get(version ?? "*")?.policy ?? Cors.getPolicies().get("*")?.policy ?? Cors.defaultPolicy;
+	}
+
+	/**
+	 * Get the cors headers for the response to a request.
+	 * @param request The request to respond to.
+	 * @param version The api version of the request, or undefined if unknown.
+	 * @param preflight Whether the request is a preflight request, which also needs the allowed methods and headers.
+	 */
+	public static getHeaders(request: IncomingMessage, version?: string, preflight: boolean = false): { [header: string]: string } {
+		const policies = Cors.getPolicies();
+		const compiled = policies.get(version ?? "*") ?? policies.get("*") ?? { policy: Cors.defaultPolicy, origins: [] };
+		const policy = compiled.policy;
+		const origin = request.headers.origin;
+
+		const headers: { [header: string]: string } = {};
+		if (policy.origins.includes("*") && !policy.credentials) {
+			headers["Access-Control-Allow-Origin"] = "*";
+		} else {
+			//The response depends on the origin, so caches should take it into account.
+			headers.Vary = "Origin";
+			//Never allow all origins with credentials, as that would allow every website to make requests as the user.
+			if (origin === undefined || !compiled.origins.some((regExp) => regExp.test(origin))) {
+				return headers;
+			}
+			headers["Access-Control-Allow-Origin"] = origin;
+			if (policy.credentials) {
+				headers["Access-Control-Allow-Credentials"] = "true";
+			}
+		}
+		if (policy.exposedHeaders.length > 0) {
+			headers["Access-Control-Expose-Headers"] = policy.exposedHeaders.join(", ");
+		}
+		if (preflight) {
+			headers["Access-Control-Allow-Methods"] = policy.methods.join(", ");
+			headers["Access-Control-Allow-Headers"] = policy.allowedHeaders.join(", ");
+			headers["Access-Control-Max-Age"] = policy.maxAge.toString();
+		}
+		return headers;
+	}
+
+	/** Get the policies from the config. */
+	private static getPolicies(): Map<string, { policy: CorsPolicy, origins: RegExp[] }> {
+		if (Cors.policies === undefined) {
+			Cors.policies = new Map();
+			if (Config.get().VSERVER_CORS !== undefined) {
+				const policies: { [version: string]: Partial<CorsPolicy> } = JSON.parse(Config.get().VSERVER_CORS!);
+				for (const version of Object.keys(policies)) {
+					const policy = Object.assign({}, Cors.defaultPolicy, policies[version]);
+					const origins = policy.origins.filter((origin) => origin !== "*").map((origin) =>
+						new RegExp(`^${origin.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\\/]/g, "\\$&")).join(".*")}$`));
+					Cors.policies.set(version, { policy, origins });
+				}
+			}
+		}
+		return Cors.policies;
+	}
+}
\ No newline at end of file
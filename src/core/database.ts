@@ -14,6 +14,17 @@ import { EventEmitter } from "events";
 types.setTypeParser(20, (val: string) => Number.parseInt(val, 10));
 types.setTypeParser(1016, (val: string) => val.length === 2 ? [] : val.slice(1, -1).split(",").map((v) => Number.parseInt(v, 10)));
 
+/** The state of the connection pool of a database and the number of queries since it was setup. */
+export interface DatabaseStats {
+	totalClients: number;
+	idleClients: number;
+	/** The number of queries waiting for a client. */
+	waitingClients: number;
+	queries: number;
+	/** The number of queries and connections that failed. */
+	errors: number;
+}
+
 /**
  * The database class is responsible for interacting with the blockchain and updating subscribers.
  * It is also suitable for connecting with other postgres databases, making use of a connection pool.
@@ -29,6 +40,10 @@ export class Database extends EventEmitter {
 	protected pool: Pool | undefined;
 	protected name: string | undefined;
 	protected dedicatedConnections: Client[] = [];
+	protected queries: number = 0;
+	protected errors: number = 0;
+	/** Errors of failed queries that were already counted, to only count failures to connect in query(). */
+	protected countedErrors = new WeakSet<object>();
 
 	protected constructor(name: string | undefined) {
 		super();
@@ -55,7 +70,7 @@ export class Database extends EventEmitter {
 					error.message = error.message.replace(new RegExp(this.dbSetup!.password as string, "g"), "");
 				}
 				Log.warn("Problem with database connection.", error);
-			});
+			}).on("connect", (client) => this.countQueries(client));
 		}
 		this.emit("setup");
 	}
@@ -83,6 +98,27 @@ export class Database extends EventEmitter {
 		Database.instance.delete(this.name);
 	}
 
+	/** Get all databases that are in use. */
+	public static getAll(): Database[] {
+		return Array.from(Database.instance.values());
+	}
+
+	/** Get the name of the database, or undefined for the database setup in the config. */
+	public getName(): string | undefined {
+		return this.name;
+	}
+
+	/** Get the state of the connection pool and the number of queries. */
+	public getStats(): DatabaseStats {
+		return {
+			totalClients: this.pool?.totalCount ?? 0,
+			idleClients: this.pool?.idleCount ?? 0,
+			waitingClients: this.pool?.waitingCount ?? 0,
+			queries: this.queries,
+			errors: this.errors
+		};
+	}
+
 	/** Shutdown all database connections. */
 	public static async shutdownAll(): Promise<void[]> {
 		const promises: Array<Promise<void>> = [];
@@ -103,7 +139,14 @@ export class Database extends EventEmitter {
 		if (this.pool === undefined) {
 			throw new Error("Database must be setup and active before you can query it.");
 		}
-		return this.pool.query(query, values);
+		try {
+			return await this.pool.query(query, values);
+		} catch (error) {
+			if (!this.countedErrors.has(error as object)) {
+				this.errors++;
+			}
+			throw error;
+		}
 	}
 
 	/**
@@ -116,7 +159,7 @@ export class Database extends EventEmitter {
 		if (this.pool === undefined) {
 			throw new Error("Database must be setup and active before you can send notifications.");
 		}
-		return this.pool.query(`SELECT pg_notify('validana_notification', $1);`, [JSON.stringify({ data, type })]);
+		return this.query(`SELECT pg_notify('validana_notification', $1);`, [JSON.stringify({ data, type })]);
 	}
 
 	/**
@@ -128,7 +171,41 @@ export class Database extends EventEmitter {
 		if (this.pool === undefined) {
 			return Promise.reject(new Error("Database must be setup and active before you can query it."));
 		}
-		return await this.pool.connect();
+		try {
+			return await this.pool.connect();
+		} catch (error) {
+			this.errors++;
+			throw error;
+		}
+	}
+
+	/** Count all queries of a client of the pool, including those from query() and those made using getConnection(). */
+	protected countQueries(client: PoolClient): void {
+		const query: (...args: any[]) => any = client.query.bind(client);
+		client.query = (...args: any[]): any => {
+			this.queries++;
+			const countError = (error: unknown): void => {
+				if (error !== undefined && error !== null) {
+					this.errors++;
+					if (error instanceof Object) {
+						this.countedErrors.add(error);
+					}
+				}
+			};
+			const callback = args[args.length - 1];
+			if (typeof callback === "function") {
+				args[args.length - 1] = (error: Error | undefined, result: QueryResult): void => {
+					countError(error);
+					callback(error, result);
+				};
+				return query(...args);
+			}
+			const result = query(...args);
+			if (result instanceof Promise) {
+				result.catch(countError);
+			}
+			return result;
+		};
 	}
 
 	/**
@@ -196,6 +273,16 @@ export interface DBTransaction {
 	receiver: string | null;
 }
 
+/** Block as found in the database. */
+export interface DBBlock {
+	block_id: number;
+	version: number;
+	previous_block_hash: Buffer;
+	processed_ts: number;
+	transactions_amount: number;
+	signature: Buffer;
+}
+
 /** Status of transaction found in the database. */
 export enum TransactionStatus {
 	New = "new", Invalid = "invalid", Accepted = "accepted", Rejected = "rejected"
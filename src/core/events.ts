@@ -4,6 +4,18 @@ import { Message } from "../protocol/protocol";
 import { Socket } from "net";
 import * as WebSocket from "ws";
 
+/** Info about a new block, as send by the processor. */
+export interface BlockNotification {
+	/** The id of the block. */
+	block: number;
+	/** The processed timestamp of the block. */
+	ts: number;
+	/** The number of transactions in the block. */
+	txs?: number;
+	/** The number of transactions not in a block that were processed (such as invalid transactions). */
+	other: number;
+}
+
 /**
  * The server event emitter can be used for a publish-subscriber pattern.
  * You can eighter subscribe to a type of messages, or a specific subtype to easily
@@ -12,6 +24,8 @@ import * as WebSocket from "ws";
  */
 export class ServerEventEmitter<T = any> {
 	private static readonly instances = new Map<string, ServerEventEmitter>();
+	/** The number of subscriptions of each connection, for all event emitters together. */
+	private static readonly subscriptions = new WeakMap<Socket | WebSocket, number>();
 
 	private readonly subtypeToConnection = new Map<string | undefined, Array<[Socket | WebSocket | undefined, (data: any) => void]>>();
 
@@ -19,6 +33,8 @@ export class ServerEventEmitter<T = any> {
 
 	/** Get an event emitter for a transactions. */
 	public static get(eventType: "transactionId" | "transactionAddress" | "transactionContract" | "transaction"): ServerEventEmitter<DBTransaction>;
+	/** Get an event emitter for new blocks. */
+	public static get(eventType: "block"): ServerEventEmitter<BlockNotification>;
 	/** Get an event emittor for a notifications. Send a notification using Database.get().notify(subtype, data). */
 	public static get(eventType: "notification"): ServerEventEmitter<any>;
 	/** Get an event emitter for a certain type of events. */
@@ -43,6 +59,10 @@ export class ServerEventEmitter<T = any> {
 		const connections = this.subtypeToConnection.get(subtype);
 		if (connections !== undefined) {
 			const newConnections = connections.filter((conn) => conn[0] !== connection);
+			if (connection !== undefined && connection !== null && newConnections.length !== connections.length) {
+				const removed = connections.length - newConnections.length;
+				ServerEventEmitter.subscriptions.set(connection, ServerEventEmitter.subscriptions.get(connection)! - removed);
+			}
 			if (newConnections.length === 0) {
 				this.subtypeToConnection.delete(subtype);
 			} else {
@@ -65,6 +85,9 @@ export class ServerEventEmitter<T = any> {
 		} else {
 			connections.push([connection, subscriber]);
 		}
+		if (connection !== undefined) {
+			ServerEventEmitter.subscriptions.set(connection, (ServerEventEmitter.subscriptions.get(connection) ?? 0) + 1);
+		}
 
 		//Make sure it is removed again if the connection is closed:
 		connection?.on("close", () => this.unsubscribe(message, subtype));
@@ -91,6 +114,12 @@ export class ServerEventEmitter<T = any> {
 		}
 	}
 
+	/** Check if the connection of a message is subscribed to any type of event. */
+	public static hasSubscriptions(message: Message): boolean {
+		const connection = message.response instanceof WebSocket ? message.response : message.response.socket!;
+		return (ServerEventEmitter.subscriptions.get(connection) ?? 0) > 0;
+	}
+
 	/** Returns if there are any subscribers for this event type (and subtype). */
 	public hasSubscribers(subtype?: string): boolean {
 		if (subtype === undefined) {
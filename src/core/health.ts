@@ -0,0 +1,89 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import * as http from "http";
+import { Log } from "@coinversable/validana-core";
+import { Database } from "./database";
+import { Config } from "../config";
+
+/** The result of a single readiness check. */
+export interface HealthCheck {
+	ok: boolean;
+	[info: string]: unknown;
+}
+
+/**
+ * Liveness and readiness endpoints for load balancers and probes, served by every HttpServer outside the versioned api.
+ * Liveness (/health) only tells the worker is running, readiness (/ready) also checks the database,
+ *  the connection listening for new blocks and the age of the latest block. Both respond with 200 if ok and 503 otherwise.
+ */
+export class Health {
+	public static readonly livenessPath = "/health";
+	public static readonly readinessPath = "/ready";
+	/** Get the last processed block. */
+	private static readonly getLatestBlock = "SELECT block_id, processed_ts FROM basics.blocks ORDER BY block_id DESC LIMIT 1;";
+	/** Whether the connection listening for notifications is up. */
+	private static listening = false;
+
+	/** Set whether the connection listening for notifications is up. */
+	public static setListening(listening: boolean): void {
+		Health.listening = listening;
+	}
+
+	/** Check if a request is for one of the health endpoints. */
+	public static isHealthRequest(request: http.IncomingMessage): boolean {
+		if (request.method !== "GET" && request.method !== "HEAD") {
+			return false;
+		}
+		const path = request.url?.split("?")[0];
+		return path === Health.livenessPath || path === Health.readinessPath;
+	}
+
+	/** Respond to a request for one of the health endpoints. */
+	public static async respond(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+		const result = request.url!.split("?")[0] === Health.livenessPath ? Health.liveness() : await Health.readiness();
+		if (!response.writableEnded && !request.socket.destroyed) {
+			response.writeHead(result.ok ? 200 : 503, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+			response.end(request.method === "HEAD" ? undefined : JSON.stringify(result));
+		}
+	}
+
+	/** Check if the worker is alive. */
+	public static liveness(): HealthCheck {
+		return { ok: true, pid: process.pid, uptime: Math.floor(process.uptime()) };
+	}
+
+	/** Check if the worker is ready to handle requests. */
+	public static async readiness(): Promise<HealthCheck & { checks: { [check: string]: HealthCheck } }> {
+		const checks: { [check: string]: HealthCheck } = {
+			database: { ok: false },
+			listen: { ok: Health.listening },
+			latestBlock: { ok: false }
+		};
+		if (Database.get().isActive()) {
+			try {
+				const latestBlock: { block_id: number, processed_ts: number } | undefined = (await Database.get().query(Health.getLatestBlock)).rows[0];
+				checks.database.ok = true;
+				if (latestBlock !== undefined) {
+					const age = Math.floor((Date.now() - latestBlock.processed_ts) / 1000);
+					const maxAge = Config.get().VSERVER_MAXBLOCKAGE;
+					checks.latestBlock = { ok: maxAge === 0 || age <= maxAge, blockId: latestBlock.block_id, age };
+				} else {
+					//There may not be any blocks yet, which only matters if we expect them.
+					checks.latestBlock = { ok: Config.get().VSERVER_MAXBLOCKAGE === 0 };
+				}
+			} catch (error) {
+				Log.warn("Readiness check failed to query database", error);
+				checks.database.error = "Failed to query database.";
+			}
+		} else {
+			checks.database.error = "Database is not active.";
+		}
+		return { ok: Object.values(checks).every((check) => check.ok), checks };
+	}
+}
\ No newline at end of file
@@ -4,16 +4,18 @@ import * as FS from "fs";
 import { Log } from "@coinversable/validana-core";
 import { Config } from "../config";
 import { EventEmitter } from "events";
+import { Health } from "./health";
 
 /**
  * Barebone http(s) server that listens on a port and will restart itsself in case of errors.
- * Will not do anything with incoming messages.
+ * Will not do anything with incoming messages, except for the health endpoints.
  */
 export class HttpServer extends EventEmitter {
 	public readonly server: http.Server | https.Server;
 	public readonly port: number;
 	private permanentlyClosed: boolean = false;
 	private restartTimeout: number = 5000;
+	private readonly requestClaims: Array<(request: http.IncomingMessage) => boolean> = [];
 
 	constructor(port: number) {
 		super();
@@ -53,6 +55,14 @@ export class HttpServer extends EventEmitter {
 
 		this.server.on("listening", () => this.restartTimeout = 5000);
 
+		//Health endpoints are outside of the api, so protocols should leave them to us.
+		this.claimRequests(Health.isHealthRequest);
+		this.server.on("request", (request: http.IncomingMessage, response: http.ServerResponse) => {
+			if (Health.isHealthRequest(request)) {
+				Health.respond(request, response);
+			}
+		});
+
 		//Restart the server in a bit after an error.
 		this.server.on("error", async (error) => {
 			Log.warn("Server error", error);
@@ -92,6 +102,19 @@ export class HttpServer extends EventEmitter {
 		this.emit("close", permanent, graceful);
 	}
 
+	/**
+	 * Claim requests for a protocol. Other protocols using this server will ignore requests that are claimed.
+	 * @param claim Returns whether the request is claimed.
+	 */
+	public claimRequests(claim: (request: http.IncomingMessage) => boolean): void {
+		this.requestClaims.push(claim);
+	}
+
+	/** Check if a request was claimed by a protocol. */
+	public isClaimed(request: http.IncomingMessage): boolean {
+		return this.requestClaims.some((claim) => claim(request));
+	}
+
 	/**
 	 * Load the certificate from the location found in the config file (if any).
 	 * Returns undefined if it failed to load the certificate.
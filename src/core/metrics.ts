@@ -13,35 +13,6 @@ interface TotalMetrics {
 	requestsSuccessRest: number;
 	requestsClientErrorRest: number;
 	requestsServerErrorRest: number;
-	/**
-	 * We calculate latency as time between digesting the full message till the time we start sending our response.
-	 * This is not accurate, as a client may be waiting for a while before node.js digests the message.
-	 * For example: a slow message will cause the next several messages to wait before they are digested.
-	 * However there is no way for us to determine when the client started waiting.
-	 */
-	latency8: number;
-	latency16: number;
-	latency32: number;
-	latency64: number;
-	latency128: number;
-	latency256: number;
-	latency512: number;
-	latency1024: number;
-	latency2048: number;
-	latency4096: number;
-	latencyInf: number;
-	/** The total latency of all requests in this period. */
-	latencyTotal: number;
-	/** Websocket duration in seconds. */
-	websocket10: number;
-	websocket30: number;
-	websocket60: number;
-	websocket120: number;
-	websocket300: number;
-	websocket900: number;
-	websocketInf: number;
-	/** The total duration of all websocket connections. */
-	websocketTotal: number;
 }
 
 interface CurrentMetrics {
@@ -60,10 +31,49 @@ type CurrentMetricsArrays = {
 	[P in keyof CurrentMetrics]: Array<CurrentMetrics[P]>;
 };
 
+/** The options of a counter, gauge or histogram. */
+export interface MetricOptions {
+	/** What the metric measures, used as help text in Prometheus. */
+	help: string;
+	/** The names of the labels, values for all of them should be given when recording. Defaults to no labels. */
+	labels?: string[];
+}
+
+/** The options of a histogram. */
+export interface HistogramOptions extends MetricOptions {
+	/** The upper bounds of the buckets in increasing order. A bucket for everything above the last bound is added automatically. */
+	buckets: number[];
+	/** Bucket bounds and the sum are divided by this in Prometheus, for example 1000 to record milliseconds but export seconds. */
+	prometheusScale?: number;
+}
+
+/** The options of a gauge. */
+export interface GaugeOptions extends MetricOptions {
+	/** How to combine the values of all workers, defaults to sum. */
+	aggregate?: "sum" | "max";
+}
+
+/** A counter, gauge or histogram and the label values it has been recorded with in this worker. */
+interface MetricDefinition {
+	type: "counter" | "gauge" | "histogram";
+	options: MetricOptions & Partial<HistogramOptions> & Partial<GaugeOptions>;
+	series: Set<string>;
+}
+
+/** The values of a single series (combination of label values) of a metric, as retrieved from all workers. */
+interface MetricSeries {
+	labels: string[];
+	value: number;
+	buckets: { [bucket: string]: number };
+	sum: number;
+}
+
 /**
  * Helper class for exporting metrics, such as latency and requests per second.
  * It can be extended using addCurrentMetrics() for metrics that represent a current state
  *  and addTotalMetrics() for metrics for metrics that represent a total up to this point.
+ * For counters, gauges and histograms (optionally with labels) use addCounter(), addGauge() and addHistogram() instead,
+ *  which are exported in json and Prometheus format automatically.
  * Should a worker die the current metrics will temporarily be inaccurate but this will be resolved within VSERVER_METRICSINTERVAL.
  */
 export class Metrics {
@@ -79,27 +89,7 @@ export class Metrics {
 		requestsServerErrorWs: 0,
 		requestsSuccessRest: 0,
 		requestsClientErrorRest: 0,
-		requestsServerErrorRest: 0,
-		latency8: 0,
-		latency16: 0,
-		latency32: 0,
-		latency64: 0,
-		latency128: 0,
-		latency256: 0,
-		latency512: 0,
-		latency1024: 0,
-		latency2048: 0,
-		latency4096: 0,
-		latencyInf: 0,
-		latencyTotal: 0,
-		websocket10: 0,
-		websocket30: 0,
-		websocket60: 0,
-		websocket120: 0,
-		websocket300: 0,
-		websocket900: 0,
-		websocketInf: 0,
-		websocketTotal: 0
+		requestsServerErrorRest: 0
 	};
 	private static readonly totalNames = Object.keys(Metrics.totalStats);
 	private static readonly totalExporters = new Map<string, Array<(input: CurrentMetricsArrays & TotalMetrics) => any>>();
@@ -115,6 +105,11 @@ export class Metrics {
 	/** All metrics being collected. */
 	public static readonly stats = Object.assign({}, Metrics.totalStats, Metrics.currentStats);
 
+	/** All counters, gauges and histograms. */
+	private static readonly metrics = new Map<string, MetricDefinition>();
+	/** The number of queries and errors of each database during the previous sync. */
+	private static readonly databaseCounts = new WeakMap<Database, { queries: number, errors: number }>();
+
 	/**
 	 * Add a new metrics that records totals. After this they can be increased using Metrics.stats[name]++
 	 * Should be called before calling start() on all of the workers.
@@ -162,7 +157,7 @@ export class Metrics {
 	/**
 	 * Export the data in a specified format.
 	 * @param format The format, for example "json" or "prometheus".
-	 * @param includeDefaults Include the default exporters or not.
+	 * @param includeDefaults Include the default exporters (and all counters, gauges and histograms) or not.
 	 * @throws If gathering metrics is disabled or if it has not gathered any metrics yet.
 	 * @returns an array of the data produced for all metric exporters
 	 */
@@ -192,8 +187,10 @@ export class Metrics {
 		if (includeDefaults) {
 			if (format === "json") {
 				result.push(Metrics.exportJson(allMetrics));
+				result.push(Metrics.exportMetricsJson(allMetrics));
 			} else if (format === "prometheus") {
 				result.push(Metrics.exportPrometheus(allMetrics));
+				result.push(Metrics.exportMetricsPrometheus(allMetrics));
 			}
 		}
 		if (Metrics.currentExporters.has(format)) {
@@ -221,26 +218,6 @@ export class Metrics {
 
 	/** Return all default metrics in Prometheus format. */
 	private static exportPrometheus(input: CurrentMetricsArrays & TotalMetrics): string {
-		//Histograms contain the result of this and all previous buckets.
-		const latencyBucket8 = input.latency8;
-		const latencyBucket16 = input.latency16 + latencyBucket8;
-		const latencyBucket32 = input.latency32 + latencyBucket16;
-		const latencyBucket64 = input.latency64 + latencyBucket32;
-		const latencyBucket128 = input.latency128 + latencyBucket64;
-		const latencyBucket256 = input.latency256 + latencyBucket128;
-		const latencyBucket512 = input.latency512 + latencyBucket256;
-		const latencyBucket1024 = input.latency1024 + latencyBucket512;
-		const latencyBucket2048 = input.latency2048 + latencyBucket1024;
-		const latencyBucket4096 = input.latency4096 + latencyBucket2048;
-		const latencyBucketInf = input.latencyInf + latencyBucket4096;
-		const websocketBucket10 = input.websocket10;
-		const websocketBucket30 = input.websocket30 + websocketBucket10;
-		const websocketBucket60 = input.websocket60 + websocketBucket30;
-		const websocketBucket120 = input.websocket120 + websocketBucket60;
-		const websocketBucket300 = input.websocket300 + websocketBucket120;
-		const websocketBucket900 = input.websocket900 + websocketBucket300;
-		const websocketBucketInf = input.websocketInf + websocketBucket900;
-
 		//When was the last update
 		const latestUpdate = Math.max(...input.lastSync);
 		//Number of worker threads.
@@ -266,33 +243,7 @@ export class Metrics {
 			`validana_requests{result="serverError",type="ws"} ${input.requestsServerErrorWs} ${latestUpdate}\n` +
 			`validana_requests{result="success",type="rest"} ${input.requestsSuccessRest} ${latestUpdate}\n` +
 			`validana_requests{result="clientError",type="rest"} ${input.requestsClientErrorRest} ${latestUpdate}\n` +
-			`validana_requests{result="serverError",type="rest"} ${input.requestsServerErrorRest} ${latestUpdate}\n` +
-			`# HELP validana_latency The latency of requests.\n` +
-			`# TYPE validana_latency histogram\n` +
-			`validana_latency_bucket{le="0.008"} ${latencyBucket8} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.016"} ${latencyBucket16} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.032"} ${latencyBucket32} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.064"} ${latencyBucket64} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.128"} ${latencyBucket128} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.256"} ${latencyBucket256} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="0.512"} ${latencyBucket512} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="1.024"} ${latencyBucket1024} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="2.048"} ${latencyBucket2048} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="4.096"} ${latencyBucket4096} ${latestUpdate}\n` +
-			`validana_latency_bucket{le="+Inf"} ${latencyBucketInf} ${latestUpdate}\n` +
-			`validana_latency_sum ${input.latencyTotal} ${latestUpdate}\n` +
-			`validana_latency_count ${latencyBucketInf} ${latestUpdate}\n` +
-			`# HELP validana_websocket_duration The duration of websocket connections.\n` +
-			`# TYPE validana_websocket_duration histogram\n` +
-			`validana_websocket_duration_bucket{le="10"} ${websocketBucket10} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="30"} ${websocketBucket30} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="60"} ${websocketBucket60} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="120"} ${websocketBucket120} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="300"} ${websocketBucket300} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="900"} ${websocketBucket900} ${latestUpdate}\n` +
-			`validana_websocket_duration_bucket{le="+Inf"} ${websocketBucketInf} ${latestUpdate}\n` +
-			`validana_websocket_duration_sum ${input.websocketTotal} ${latestUpdate}\n` +
-			`validana_websocket_duration_count ${websocketBucketInf} ${latestUpdate}`;
+			`validana_requests{result="serverError",type="rest"} ${input.requestsServerErrorRest} ${latestUpdate}`;
 	}
 
 	/** Return all default metrics in json format. */
@@ -313,34 +264,106 @@ export class Metrics {
 				clientErrorRest: input.requestsClientErrorRest,
 				serverErrorRest: input.requestsServerErrorRest
 			},
-			latency: {
-				8: input.latency8,
-				16: input.latency16,
-				32: input.latency32,
-				64: input.latency64,
-				128: input.latency128,
-				256: input.latency256,
-				512: input.latency512,
-				1024: input.latency1024,
-				2048: input.latency2048,
-				4096: input.latency4096,
-				infinity: input.latencyInf,
-				total: input.latencyTotal
-			},
-			currentWsConnections: Metrics.sum(input.wsConnections),
-			websocketDuration: {
-				10: input.websocket10,
-				30: input.websocket30,
-				60: input.websocket60,
-				120: input.websocket120,
-				300: input.websocket300,
-				900: input.websocket900,
-				infinity: input.websocketInf,
-				total: input.websocketTotal
-			}
+			currentWsConnections: Metrics.sum(input.wsConnections)
 		};
 	}
 
+	/** Get all series of a metric from the metrics of all workers. */
+	private static getSeries(name: string, definition: MetricDefinition, input: CurrentMetricsArrays & TotalMetrics): Map<string, MetricSeries> {
+		const result = new Map<string, MetricSeries>();
+		const prefix = definition.type === "histogram" ? [`${name}_bucket{`, `${name}_sum{`] : [`${name}{`];
+		for (const metric of Object.keys(input)) {
+			const start = prefix.find((value) => metric.startsWith(value));
+			if (start === undefined) {
+				continue;
+			}
+			let labels = metric.slice(start.length, -1);
+			//For buckets the last label is the bucket.
+			let bucket: string | undefined;
+			if (start.endsWith("_bucket{")) {
+				const match = labels.match(/^(.*?),?le="([^"]*)"$/)!;
+				labels = match[1];
+				bucket = match[2];
+			}
+			let series = result.get(labels);
+			if (series === undefined) {
+				const values: string[] = [];
+				for (const label of labels.matchAll(/\w+="((?:[^"\\]|\\.)*)"/g)) {
+					values.push(label[1].replace(/\\n/g, "\n").replace(/\\(.)/g, "$1"));
+				}
+				series = { labels: values, value: 0, buckets: {}, sum: 0 };
+				result.set(labels, series);
+			}
+			const values = input[metric] as number | number[];
+			const value = typeof values === "number" ? values : definition.options.aggregate === "max" ? Math.max(...values) : Metrics.sum(values);
+			if (bucket !== undefined) {
+				series.buckets[bucket] = value;
+			} else if (start.endsWith("_sum{")) {
+				//The sum is stored in thousandths, as only whole numbers are stored.
+				series.sum = value / 1000;
+			} else {
+				series.value = value;
+			}
+		}
+		return result;
+	}
+
+	/** Return all counters, gauges and histograms in Prometheus format. */
+	private static exportMetricsPrometheus(input: CurrentMetricsArrays & TotalMetrics): string {
+		const latestUpdate = Math.max(...input.lastSync);
+		const result: string[] = [];
+		for (const [name, definition] of Metrics.metrics) {
+			const prometheusName = `validana_${name.replace(/[A-Z]/g, (letter) => "_" + letter.toLowerCase())}`;
+			result.push(`# HELP ${prometheusName} ${definition.options.help}`, `# TYPE ${prometheusName} ${definition.type}`);
+			for (const [labels, series] of Metrics.getSeries(name, definition, input)) {
+				if (definition.type !== "histogram") {
+					result.push(`${prometheusName}${labels === "" ? "" : `{${labels}}`} ${series.value} ${latestUpdate}`);
+					continue;
+				}
+				//Histograms contain the result of this and all previous buckets.
+				const scale = definition.options.prometheusScale ?? 1;
+				let count = 0;
+				for (const bucket of [...definition.options.buckets!, "+Inf"]) {
+					count += series.buckets[bucket] ?? 0;
+					const le = typeof bucket === "number" ? bucket / scale : bucket;
+					result.push(`${prometheusName}_bucket{${labels === "" ? "" : labels + ","}le="${le}"} ${count} ${latestUpdate}`);
+				}
+				result.push(`${prometheusName}_sum${labels === "" ? "" : `{${labels}}`} ${series.sum / scale} ${latestUpdate}`);
+				result.push(`${prometheusName}_count${labels === "" ? "" : `{${labels}}`} ${count} ${latestUpdate}`);
+			}
+		}
+		return result.join("\n");
+	}
+
+	/** Return all counters, gauges and histograms in json format, with labelled metrics nested by the values of their labels. */
+	private static exportMetricsJson(input: CurrentMetricsArrays & TotalMetrics): object {
+		const result: { [name: string]: any } = {};
+		for (const [name, definition] of Metrics.metrics) {
+			result[name] = {};
+			for (const series of Metrics.getSeries(name, definition, input).values()) {
+				let value: number | { [bucket: string]: number } = series.value;
+				if (definition.type === "histogram") {
+					value = {};
+					for (const bucket of definition.options.buckets!) {
+						value[bucket] = series.buckets[bucket] ?? 0;
+					}
+					value.infinity = series.buckets["+Inf"] ?? 0;
+					value.total = series.sum;
+				}
+				if (series.labels.length === 0) {
+					result[name] = value;
+				} else {
+					let parent = result[name];
+					for (const label of series.labels.slice(0, -1)) {
+						parent = parent[label] = parent[label] ?? {};
+					}
+					parent[series.labels[series.labels.length - 1]] = value;
+				}
+			}
+		}
+		return result;
+	}
+
 	/**
 	 * Write all gathered values to the database and then reset them.
 	 * This synchronizes the values with all other workers.
@@ -348,6 +371,7 @@ export class Metrics {
 	public static async sync(): Promise<void> {
 		//Get the statistics to write to the database.
 		//We save+reset them now as they may change before we are finished writing.
+		Metrics.recordDatabases();
 		const totalNames: string[] = [];
 		const totalsValues: number[] = [];
 		for (const key of Metrics.totalNames) {
@@ -403,6 +427,21 @@ export class Metrics {
 		}
 	}
 
+	/** Record the state of the connection pool of all databases and the number of queries and errors since the previous sync. */
+	private static recordDatabases(): void {
+		for (const database of Database.getAll()) {
+			const labels = { database: database.getName() ?? "default" };
+			const stats = database.getStats();
+			Metrics.set("databaseClients", stats.totalClients, { ...labels, state: "total" });
+			Metrics.set("databaseClients", stats.idleClients, { ...labels, state: "idle" });
+			Metrics.set("databaseClients", stats.waitingClients, { ...labels, state: "waiting" });
+			const previous = Metrics.databaseCounts.get(database) ?? { queries: 0, errors: 0 };
+			Metrics.increase("databaseQueries", labels, stats.queries - previous.queries);
+			Metrics.increase("databaseErrors", labels, stats.errors - previous.errors);
+			Metrics.databaseCounts.set(database, { queries: stats.queries, errors: stats.errors });
+		}
+	}
+
 	/**
 	 * Set the database to use for storing metrics. By default metrics are logged to the database set in the config.
 	 * Should be called before running start() for each of the workers.
@@ -411,57 +450,127 @@ export class Metrics {
 		Metrics.database = database;
 	}
 
-	/** Record the latency of this message. This action will be ignored if no noLatencyMetric() was called. */
+	/**
+	 * Add a counter, which can only increase. After this it can be increased using Metrics.increase(name, labels).
+	 * Should be called before calling start() on all of the workers. Ignored if a metric with this name already exists.
+	 */
+	public static addCounter(name: string, options: MetricOptions): void {
+		Metrics.addMetric(name, "counter", options);
+	}
+
+	/**
+	 * Add a gauge, which represents a current value. After this it can be set using Metrics.set(name, value, labels).
+	 * The exported value is the sum (or maximum) of the values of all workers.
+	 * Should be called before calling start() on all of the workers. Ignored if a metric with this name already exists.
+	 */
+	public static addGauge(name: string, options: GaugeOptions): void {
+		Metrics.addMetric(name, "gauge", options);
+	}
+
+	/**
+	 * Add a histogram, which counts values per bucket. After this values can be recorded using Metrics.observe(name, value, labels).
+	 * Should be called before calling start() on all of the workers. Ignored if a metric with this name already exists.
+	 */
+	public static addHistogram(name: string, options: HistogramOptions): void {
+		Metrics.addMetric(name, "histogram", options);
+	}
+
+	/** Increase a counter or gauge. */
+	public static increase(name: string, labels: { [label: string]: string } = {}, amount: number = 1): void {
+		Metrics.stats[`${name}{${Metrics.addSeries(name, labels)}}`] += amount;
+	}
+
+	/** Set the value of a gauge. */
+	public static set(name: string, value: number, labels: { [label: string]: string } = {}): void {
+		Metrics.stats[`${name}{${Metrics.addSeries(name, labels)}}`] = value;
+	}
+
+	/** Record a value in a histogram. */
+	public static observe(name: string, value: number, labels: { [label: string]: string } = {}): void {
+		const series = Metrics.addSeries(name, labels);
+		const bucket = Metrics.metrics.get(name)!.options.buckets!.find((limit) => value <= limit) ?? "+Inf";
+		Metrics.stats[`${name}_bucket{${series === "" ? "" : series + ","}le="${bucket}"}`]++;
+		Metrics.stats[`${name}_sum{${series}}`] += Math.round(value * 1000);
+	}
+
+	/** Add a counter, gauge or histogram. */
+	private static addMetric(name: string, type: MetricDefinition["type"], options: MetricDefinition["options"]): void {
+		if (!Metrics.metrics.has(name)) {
+			Metrics.metrics.set(name, { type, options, series: new Set() });
+		}
+	}
+
+	/** Get the labels of a series of a metric, adding the series if it was not yet recorded in this worker. */
+	private static addSeries(name: string, labels: { [label: string]: string }): string {
+		const definition = Metrics.metrics.get(name);
+		if (definition === undefined) {
+			throw new Error(`Metric ${name} does not exist.`);
+		}
+		const series = (definition.options.labels ?? []).map((label) =>
+			`${label}="${(labels[label] ?? "").replace(/[\\"]/g, "\\$&").replace(/\n/g, "\\n")}"`).join(",");
+		if (!definition.series.has(series)) {
+			definition.series.add(series);
+			if (definition.type === "counter") {
+				Metrics.addTotalMetrics([`${name}{${series}}`], {});
+			} else if (definition.type === "gauge") {
+				Metrics.addCurrentMetrics([`${name}{${series}}`], {});
+			} else {
+				Metrics.addTotalMetrics([
+					...[...definition.options.buckets!, "+Inf"].map((bucket) => `${name}_bucket{${series === "" ? "" : series + ","}le="${bucket}"}`),
+					`${name}_sum{${series}}`
+				], {});
+			}
+		}
+		return series;
+	}
+
+	/**
+	 * Record the latency of this message.
+	 * We calculate latency as time between digesting the full message till the time we start sending our response.
+	 * This is not accurate, as a client may be waiting for a while before node.js digests the message.
+	 * For example: a slow message will cause the next several messages to wait before they are digested.
+	 * However there is no way for us to determine when the client started waiting.
+	 */
 	public static recordLatency(startTime: number): void {
-		const latency = Date.now() - startTime;
-		//The majority of the latency metrics will fall in the first group(s), only rarely in the later groups.
-		//So performance shouldn't suffer
-		if (latency <= 8) {
-			Metrics.stats.latency8++;
-		} else if (latency <= 16) {
-			Metrics.stats.latency16++;
-		} else if (latency <= 32) {
-			Metrics.stats.latency32++;
-		} else if (latency <= 64) {
-			Metrics.stats.latency64++;
-		} else if (latency <= 128) {
-			Metrics.stats.latency128++;
-		} else if (latency <= 256) {
-			Metrics.stats.latency256++;
-		} else if (latency <= 512) {
-			Metrics.stats.latency512++;
-		} else if (latency <= 1024) {
-			Metrics.stats.latency1024++;
-		} else if (latency <= 2048) {
-			Metrics.stats.latency2048++;
-		} else if (latency <= 4096) {
-			Metrics.stats.latency4096++;
-		} else {
-			Metrics.stats.latencyInf++;
+		Metrics.observe("latency", Date.now() - startTime);
+	}
+
+	/**
+	 * Record a request for a message type, with its result and its latency (unless latencyStart is undefined).
+	 * This is recorded in addition to the requests and latency of all message types together.
+	 */
+	public static recordRequest(version: string, type: string, protocol: string, statusCode: number, latencyStart?: number): void {
+		const result = statusCode < 400 ? "success" : statusCode < 500 ? "clientError" : "serverError";
+		Metrics.increase("messageRequests", { version, type, protocol, result });
+		if (latencyStart !== undefined) {
+			Metrics.observe("messageLatency", Date.now() - latencyStart, { version, type, protocol });
 		}
-		Metrics.stats.latencyTotal += latency;
 	}
 
 	/** Record the duration of this websocket connection. Should be called upon closing the connection. */
 	public static recordDuration(startTime: number): void {
 		Metrics.stats.wsConnections--;
-
-		const websocketDuration = Date.now() - startTime;
-		Metrics.stats.websocketTotal += websocketDuration;
-		if (websocketDuration <= 10000) {
-			Metrics.stats.websocket10++;
-		} else if (websocketDuration <= 30000) {
-			Metrics.stats.websocket30++;
-		} else if (websocketDuration <= 60000) {
-			Metrics.stats.websocket60++;
-		} else if (websocketDuration <= 120000) {
-			Metrics.stats.websocket120++;
-		} else if (websocketDuration <= 300000) {
-			Metrics.stats.websocket300++;
-		} else if (websocketDuration <= 900000) {
-			Metrics.stats.websocket900++;
-		} else {
-			Metrics.stats.websocketInf++;
-		}
+		Metrics.observe("websocketDuration", (Date.now() - startTime) / 1000);
 	}
-}
\ No newline at end of file
+}
+
+const latencyBuckets = [8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096];
+Metrics.addHistogram("latency", { help: "The latency of requests.", buckets: latencyBuckets, prometheusScale: 1000 });
+Metrics.addHistogram("websocketDuration", { help: "The duration of websocket connections.", buckets: [10, 30, 60, 120, 300, 900] });
+Metrics.addCounter("messageRequests", {
+	help: "The number of requests per api version, message type and protocol.",
+	labels: ["version", "type", "protocol", "result"]
+});
+Metrics.addHistogram("messageLatency", {
+	help: "The latency of requests per api version, message type and protocol.",
+	labels: ["version", "type", "protocol"],
+	buckets: latencyBuckets,
+	prometheusScale: 1000
+});
+Metrics.addGauge("databaseClients", { help: "The number of clients in the connection pool of a database.", labels: ["database", "state"] });
+Metrics.addCounter("databaseQueries", { help: "The number of queries to a database.", labels: ["database"] });
+Metrics.addCounter("databaseErrors", { help: "The number of failed queries and connections to a database.", labels: ["database"] });
+Metrics.addGauge("listenConnected", { help: "The number of workers listening for new blocks and notifications." });
+Metrics.addCounter("listenReconnects", { help: "The number of times the connection listening for notifications was lost." });
+Metrics.addCounter("listenNotifications", { help: "The number of notifications received.", labels: ["channel"] });
+Metrics.addGauge("listenLastNotification", { help: "When the last notification was received.", aggregate: "max" });
\ No newline at end of file
@@ -0,0 +1,184 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Log } from "@coinversable/validana-core";
+import { Cluster as ClusterType, Worker } from "cluster";
+import { Config } from "../config";
+import { Message } from "../protocol/protocol";
+// eslint-disable-next-line
+const Cluster: ClusterType = require("cluster");
+
+/** A token bucket holds at most capacity tokens and gains refill tokens per second. Every request costs 1 token. */
+export interface RateLimitBudget {
+	capacity: number;
+	refill: number;
+}
+
+/** Message send between a worker and the master to take a token from a bucket. */
+interface RateLimitMessage {
+	type: "ratelimit";
+	id: number;
+	/** The bucket and its budget, only when the worker asks the master. */
+	key?: string;
+	budget?: RateLimitBudget;
+	/** After how many seconds to retry, only when the master replies and there was no token left. */
+	retryAfter?: number;
+}
+
+/**
+ * The rate limiter limits the number of requests per client for each message type, using token buckets.
+ * All buckets are kept by the master, so the limits hold for all workers together.
+ * Budgets are set with VSERVER_RATELIMIT (or the rateLimit option of a message handler) and
+ *  clients are identified by ip, authenticated api key or session depending on VSERVER_RATELIMITKEY.
+ */
+export class RateLimiter {
+	/** The type of message that is send between workers and the master. */
+	public static readonly messageType = "ratelimit";
+	/** How long a worker waits for the master to reply before allowing the request anyway. */
+	private static readonly replyTimeout = 1000;
+	/** How often (in seconds) buckets that are full again are removed. */
+	private static readonly cleanupFrequency = 60;
+
+	/** All buckets, only used by the master. */
+	private static readonly buckets = new Map<string, { tokens: number, lastUpdate: number, budget: RateLimitBudget }>();
+	private static cleanupInterval: NodeJS.Timeout | undefined;
+	/** Requests of this worker that are waiting for a reply of the master. */
+	private static readonly waiting = new Map<number, (retryAfter: number | undefined) => void>();
+	private static nextId = 0;
+	/** The budgets from the config. */
+	private static budgets: Map<string, RateLimitBudget> | undefined;
+	/** Keys for sessions, used when limiting per session. */
+	private static readonly sessionKeys = new WeakMap<object, string>();
+	private static nextSessionKey = 0;
+
+	/**
+	 * Get the budget for a message type.
+	 * @param type The (lower case) message type.
+	 * @param handlerBudget The budget the message handler was added with.
+	 * @returns The budget or undefined if this type is not limited.
+	 */
+	public static getBudget(type: string, handlerBudget?: RateLimitBudget): RateLimitBudget | undefined {
+		if (RateLimiter.budgets === undefined) {
+			RateLimiter.budgets = new Map();
+			if (Config.get().VSERVER_RATELIMIT !== undefined) {
+				const budgets: { [type: string]: RateLimitBudget } = JSON.parse(Config.get().VSERVER_RATELIMIT!);
+				for (const budgetType of Object.keys(budgets)) {
+					RateLimiter.budgets.set(budgetType.toLowerCase(), budgets[budgetType]);
+				}
+			}
+		}
+		return RateLimiter.budgets.get(type) ?? handlerBudget ?? RateLimiter.budgets.get("*");
+	}
+
+	/** Whether messages should be authenticated before they are limited, as clients are identified by their principal. */
+	public static usesPrincipal(): boolean {
+		return Config.get().VSERVER_RATELIMITKEY === "apikey";
+	}
+
+	/**
+	 * Get the key that identifies the client that send a message.
+	 * When limiting per api key the authenticated principal is used, as anyone can send an unknown key.
+	 */
+	public static getClientKey(message: Message): string {
+		const keyType = Config.get().VSERVER_RATELIMITKEY;
+		if (keyType === "apikey") {
+			if (message.principal !== undefined) {
+				return `principal:${message.principal.id}`;
+			}
+		} else if (keyType === "session") {
+			let sessionKey = RateLimiter.sessionKeys.get(message.session);
+			if (sessionKey === undefined) {
+				//Sessions only exist in a single worker, so include the worker to make it unique.
+				sessionKey = `session:${Cluster.worker?.id}:${RateLimiter.nextSessionKey++}`;
+				RateLimiter.sessionKeys.set(message.session, sessionKey);
+			}
+			return sessionKey;
+		}
+		//Also used if the message is not authenticated.
+		return `ip:${message.request.socket.remoteAddress}`;
+	}
+
+	/**
+	 * Take a token from the bucket of a client. If called by a worker it will ask the master.
+	 * @param key The key of the bucket, identifying the client and message type.
+	 * @param budget The budget of the bucket.
+	 * @returns undefined if a token was taken, otherwise after how many seconds there is a token available.
+	 */
+	public static consume(key: string, budget: RateLimitBudget): Promise<number | undefined> {
+		if (Cluster.isMaster || process.send === undefined) {
+			return Promise.resolve(RateLimiter.take(key, budget));
+		}
+		return new Promise((resolve) => {
+			const id = RateLimiter.nextId++;
+			//Do not block requests if the master is not responding.
+			const timeout = setTimeout(() => {
+				RateLimiter.waiting.delete(id);
+				Log.warn("Master did not respond to rate limit request.");
+				resolve(undefined);
+			}, RateLimiter.replyTimeout);
+			RateLimiter.waiting.set(id, (retryAfter) => {
+				clearTimeout(timeout);
+				RateLimiter.waiting.delete(id);
+				resolve(retryAfter);
+			});
+			process.send!({ type: RateLimiter.messageType, id, key, budget } as RateLimitMessage);
+		});
+	}
+
+	/** Handle a message from a worker that wants to take a token. Used by the master. */
+	public static receiveRequest(worker: Worker, message: RateLimitMessage): void {
+		if (typeof message.id !== "number" || typeof message.key !== "string" || typeof message.budget !== "object" || message.budget === null) {
+			Log.warn(`Worker ${worker.id} send an invalid rate limit message.`);
+			return;
+		}
+		const retryAfter = RateLimiter.take(message.key, message.budget);
+		worker.send({ type: RateLimiter.messageType, id: message.id, retryAfter } as RateLimitMessage);
+	}
+
+	/** Handle the reply of the master. Used by workers. */
+	public static receiveReply(message: RateLimitMessage): void {
+		RateLimiter.waiting.get(message.id)?.(message.retryAfter);
+	}
+
+	/** Take a token from a bucket, returning after how many seconds to retry if there is none. */
+	private static take(key: string, budget: RateLimitBudget): number | undefined {
+		const now = Date.now();
+		let bucket = RateLimiter.buckets.get(key);
+		if (bucket === undefined) {
+			bucket = { tokens: budget.capacity, lastUpdate: now, budget };
+			RateLimiter.buckets.set(key, bucket);
+			if (RateLimiter.cleanupInterval === undefined) {
+				RateLimiter.cleanupInterval = setInterval(() => RateLimiter.cleanup(), RateLimiter.cleanupFrequency * 1000);
+			}
+		} else {
+			bucket.tokens = Math.min(budget.capacity, bucket.tokens + (now - bucket.lastUpdate) / 1000 * budget.refill);
+			bucket.lastUpdate = now;
+			bucket.budget = budget;
+		}
+
+		if (bucket.tokens >= 1) {
+			bucket.tokens--;
+			return undefined;
+		}
+		return Math.ceil((1 - bucket.tokens) / budget.refill);
+	}
+
+	/** Remove all buckets that are full again, as they are the same as a new bucket. */
+	private static cleanup(): void {
+		const now = Date.now();
+		for (const [key, bucket] of RateLimiter.buckets) {
+			if (bucket.tokens + (now - bucket.lastUpdate) / 1000 * bucket.budget.refill >= bucket.budget.capacity) {
+				RateLimiter.buckets.delete(key);
+			}
+		}
+		if (RateLimiter.buckets.size === 0) {
+			clearInterval(RateLimiter.cleanupInterval!);
+			RateLimiter.cleanupInterval = undefined;
+		}
+	}
+}
\ No newline at end of file
@@ -8,13 +8,81 @@
 
 import { EventEmitter } from "events";
 import { Message } from "../protocol/protocol";
+import { Schema, SchemaValidator } from "./schema";
+import { RateLimiter, RateLimitBudget } from "./ratelimiter";
+import { Authentication, Authenticator } from "./auth";
+
+/** Options for a message handler. */
+export interface MessageHandlerOptions {
+	/** Log the request data when it is received? Defaults to true. */
+	log?: boolean;
+	/** The schema the request data must match before the handler is called. No request data is validated as null. */
+	schema?: Schema;
+	/** A description of the message type, used for the api documentation. */
+	description?: string;
+	/** The schema of the response data, used for the api documentation. */
+	responseSchema?: Schema;
+	/** The rate limit budget for each client. A budget for this type in VSERVER_RATELIMIT takes precedence. */
+	rateLimit?: RateLimitBudget;
+	/** Whether the message must be authenticated by one of the authenticators. Defaults to false. */
+	auth?: boolean;
+	/** The default for message.cacheDuration, how long (in seconds) http clients may cache a response. */
+	cacheDuration?: number;
+	/** Extra http routes for this message type, such as transaction/:txId, of which the path parameters are added to the request data. */
+	routes?: Route[];
+}
+
+/** A http route to a message type. */
+export interface Route {
+	/** The path after the api version, parts starting with : are path parameters, for example: block/:blockId */
+	path: string;
+	/** Only use this route for this http method, defaults to all methods. */
+	method?: "GET" | "POST";
+}
+
+/** The message a middleware is called for. The data can be modified before the message handler is called. */
+export interface MiddlewareContext {
+	readonly type: string;
+	data: unknown;
+	readonly message: Message;
+}
+
+/**
+ * Middleware wraps message handlers, each hook may also set message.statusCode and message.responseHeaders.
+ * Before hooks are called in order, after and error hooks in reverse order, like nested try-catch blocks.
+ */
+export interface Middleware {
+	/** Lower is called earlier, middleware with the same order is called in the order it was added. Defaults to 0. */
+	order?: number;
+	/** Called before the message is handled. Resolve with a response to respond with it without handling the message. Reject to fail the message. */
+	before?: (context: MiddlewareContext) => Promise<{ response: unknown } | void>;
+	/** Called after the message is handled, resolves with the (modified) response. */
+	after?: (context: MiddlewareContext, response: unknown) => Promise<unknown>;
+	/**
+	 * Called if the message failed (including in the before or after hook of this middleware).
+	 * Resolve with a response (and set the status code) to recover, or resolve without to pass the error on. Reject to replace the error.
+	 */
+	error?: (context: MiddlewareContext, error: unknown) => Promise<{ response: unknown } | void>;
+}
+
+/** Options for a push type, used for the api documentation. */
+export interface PushTypeOptions {
+	description?: string;
+	/** The schema of the push data. */
+	schema?: Schema;
+}
 
 /**
  * The request handler is responsible for dealing with the content of incoming and outgoing messages.
  * Each version of the API should extend the request handler.
  */
 export class RequestHandler extends EventEmitter {
-	private readonly messageHandlers = new Map<string, (data: any, message: Message) => Promise<unknown>>();
+	private readonly messageHandlers = new Map<string, { handler: (data: any, message: Message) => Promise<unknown>, options: MessageHandlerOptions }>();
+	private readonly pushTypes = new Map<string, PushTypeOptions>();
+	private readonly routes: Array<{ type: string, method: string | undefined, parts: string[] }> = [];
+	private readonly authenticators: Authenticator[] = [];
+	/** All middleware in the order it was added, for all message types or only for some (lower case) types. */
+	private readonly middlewares: Array<{ middleware: Middleware, types: Set<string> | undefined }> = [];
 	/** A list containing all message types that should not be logged when received. */
 	public readonly doNotLog = new Map<string, boolean>();
 
@@ -39,15 +107,113 @@ export class RequestHandler extends EventEmitter {
 	 * Add a new message handler.
 	 * @param type The type of message
 	 * @param handler The handler to deal with the message.
+	 * @param options Options for the handler, or whether to log the request data for backwards compatibility.
 	 */
-	protected addMessageHandler(type: string, handler: (data: any, message: Message) => Promise<unknown>, log: boolean = true): void {
+	protected addMessageHandler(type: string, handler: (data: any, message: Message) => Promise<unknown>,
+		options: boolean | MessageHandlerOptions = true): void {
+		if (typeof options === "boolean") {
+			options = { log: options };
+		}
 		const lowerType = type.toLowerCase();
-		this.messageHandlers.set(lowerType, handler);
-		if (!log) {
+		this.messageHandlers.set(lowerType, { handler, options });
+		for (const route of options.routes ?? []) {
+			this.routes.push({ type: lowerType, method: route.method, parts: route.path.split("/").filter((part) => part !== "") });
+		}
+		if (options.log === false) {
 			this.doNotLog.set(lowerType, true);
 		}
 	}
 
+	/**
+	 * Add a push type that message handlers of this request handler may send. Only used for the api documentation.
+	 * @param pushType The type of push
+	 * @param options A description and schema of the push data.
+	 */
+	protected addPushType(pushType: string, options: PushTypeOptions = {}): void {
+		this.pushTypes.set(pushType, options);
+	}
+
+	/**
+	 * Add an authenticator, which checks the api key, bearer token or cookies of messages before they are handled.
+	 * Authenticators are tried in the order they are added, until one returns a principal, which is set as message.principal.
+	 * @param authenticator The authenticator to add.
+	 */
+	protected addAuthenticator(authenticator: Authenticator): void {
+		this.authenticators.push(authenticator);
+	}
+
+	/**
+	 * Add middleware around message handlers.
+	 * @param middleware The middleware to add.
+	 * @param types The message type(s) to add it for, or undefined for all messages (including messages of an invalid type).
+	 */
+	protected addMiddleware(middleware: Middleware, types?: string | string[]): void {
+		this.middlewares.push({
+			middleware,
+			types: types === undefined ? undefined : new Set((types instanceof Array ? types : [types]).map((type) => type.toLowerCase()))
+		});
+	}
+
+	/** Get all message types (in lower case) and the options of their handlers. */
+	public getMessageTypes(): Map<string, Readonly<MessageHandlerOptions>> {
+		return new Map(Array.from(this.messageHandlers, ([type, messageHandler]) => [type, messageHandler.options]));
+	}
+
+	/** Get all push types and their options. */
+	public getPushTypes(): Map<string, Readonly<PushTypeOptions>> {
+		return new Map(this.pushTypes);
+	}
+
+	/**
+	 * Find the route for a http request that is not to a message type.
+	 * Path parameters are added to the request data (if it is an object), using the schema to turn them into numbers or booleans.
+	 * @param method The http method of the request.
+	 * @param path The parts of the path after the api version.
+	 * @param data The request data from the query string or body.
+	 * @returns The message type and request data, or undefined if no route matches.
+	 */
+	public matchRoute(method: string, path: string[], data: unknown): { type: string, data: unknown } | undefined {
+		for (const route of this.routes) {
+			if (route.parts.length !== path.length || route.method !== undefined && route.method !== method) {
+				continue;
+			}
+			const params: { [param: string]: unknown } = {};
+			let matches = true;
+			for (let i = 0; i < path.length && matches; i++) {
+				if (route.parts[i].startsWith(":")) {
+					params[route.parts[i].slice(1)] = path[i];
+				} else {
+					matches = route.parts[i].toLowerCase() === path[i].toLowerCase();
+				}
+			}
+			if (matches) {
+				const properties = this.messageHandlers.get(route.type)!.options.schema?.properties;
+				for (const param of Object.keys(params)) {
+					const paramType = properties?.[param]?.type;
+					const types = paramType instanceof Array ? paramType : [paramType];
+					if ((types.includes("integer") || types.includes("number")) && (params[param] as string).match(/^-?\d+(\.\d+)?$/) !== null) {
+						params[param] = Number.parseFloat(params[param] as string);
+					} else if (types.includes("boolean") && (params[param] === "true" || params[param] === "false")) {
+						params[param] = params[param] === "true";
+					}
+				}
+				const isObject = typeof data === "object" && data !== null && !(data instanceof Array);
+				return { type: route.type, data: isObject ? Object.assign({}, data, params) : params };
+			}
+		}
+		return undefined;
+	}
+
+	/** Get all routes (with the lower case message type they lead to). */
+	public getRoutes(): Array<Route & { type: string }> {
+		return this.routes.map((route) => ({ type: route.type, method: route.method as Route["method"], path: route.parts.join("/") }));
+	}
+
+	/** Check if there is a message handler for a type of message. */
+	public hasMessageHandler(type: string): boolean {
+		return this.messageHandlers.has(type.toLowerCase());
+	}
+
 	/**
 	 * Called when there is a new message.
 	 * @param type The type of message
@@ -55,24 +221,104 @@ export class RequestHandler extends EventEmitter {
 	 */
 	public receiveMessage(type: string, data: unknown, message: Message): Promise<unknown> {
 		this.emit("message", type, data, message);
-		const responseFunction = this.messageHandlers.get(type);
-		if (responseFunction === undefined) {
+		const middlewares = this.middlewares.filter((added) => added.types === undefined || added.types.has(type))
+			.map((added) => added.middleware).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+		if (middlewares.length === 0) {
+			return this.handleMessage(type, data, message);
+		}
+		return this.callMiddleware(middlewares, 0, { type, data, message });
+	}
+
+	/** Call a middleware, which wraps the remaining middleware and the message handler. */
+	private async callMiddleware(middlewares: Middleware[], index: number, context: MiddlewareContext): Promise<unknown> {
+		if (index === middlewares.length) {
+			return this.handleMessage(context.type, context.data, context.message);
+		}
+		const middleware = middlewares[index];
+		try {
+			const result = await middleware.before?.(context);
+			let response = result !== undefined ? result.response : await this.callMiddleware(middlewares, index + 1, context);
+			if (middleware.after !== undefined) {
+				response = await middleware.after(context, response);
+			}
+			return response;
+		} catch (error) {
+			const result = await middleware.error?.(context, error);
+			if (result === undefined) {
+				throw error;
+			}
+			return result.response;
+		}
+	}
+
+	/** Find the message handler for a message and handle it, if the client is within its rate limit. */
+	private async handleMessage(type: string, data: unknown, message: Message): Promise<unknown> {
+		const messageHandler = this.messageHandlers.get(type);
+		if (messageHandler === undefined) {
 			return Promise.reject(`Invalid type: ${type}, supported types: ${Array.from(this.messageHandlers.keys()).join(", ")}`);
-		} else {
-			//'this' is lost if we do not call it this way.
-			return responseFunction.call(this, data, message);
 		}
+		const budget = RateLimiter.getBudget(type, messageHandler.options.rateLimit);
+		if (budget !== undefined) {
+			if (RateLimiter.usesPrincipal()) {
+				await this.authenticate(message);
+			}
+			const retryAfter = await RateLimiter.consume(`${RateLimiter.getClientKey(message)} ${type}`, budget);
+			if (retryAfter !== undefined) {
+				message.statusCode = 429;
+				message.responseHeaders = Object.assign({}, message.responseHeaders, { "Retry-After": retryAfter.toString() });
+				return Promise.reject(`Too many requests, retry after ${retryAfter} seconds.`);
+			}
+		}
+		return this.callMessageHandler(messageHandler, data, message);
+	}
+
+	/** Set the principal of the message if it was not yet authenticated. */
+	private async authenticate(message: Message): Promise<void> {
+		if (message.principal === undefined && this.authenticators.length > 0) {
+			message.principal = await Authentication.authenticate(this.authenticators, message);
+		}
+	}
+
+	/** Authenticate the message, validate the request data and call the message handler. */
+	private async callMessageHandler(messageHandler: { handler: (data: any, message: Message) => Promise<unknown>, options: MessageHandlerOptions },
+		data: unknown, message: Message): Promise<unknown> {
+		await this.authenticate(message);
+		if (messageHandler.options.auth === true && message.principal === undefined) {
+			message.statusCode = 401;
+			message.responseHeaders = Object.assign({}, message.responseHeaders, { "WWW-Authenticate": "Bearer" });
+			return Promise.reject("Authentication required.");
+		}
+		if (messageHandler.options.schema !== undefined) {
+			const errors = SchemaValidator.validate(messageHandler.options.schema, data === undefined ? null : data);
+			if (errors.length > 0) {
+				message.invalidData = true;
+				return Promise.reject(`Missing or invalid request data parameters: ${errors.join(", ")}.`);
+			}
+		}
+		if (message.cacheDuration === undefined) {
+			message.cacheDuration = messageHandler.options.cacheDuration;
+		}
+		//'this' is lost if we do not call it this way.
+		return messageHandler.handler.call(this, data, message);
 	}
 
 	/** Turns a cookie string (from request.headers.cookie) in a map of key-value pairs. */
-	protected cookieStringToMap(cookies: string | undefined): Map<string, string> {
+	public static cookieStringToMap(cookies: string | undefined): Map<string, string> {
 		const cookieMap = new Map<string, string>();
 		if (cookies !== undefined) {
-			for (const cookie of cookies.split("; ")) {
-				const cookieParts = cookie.split("=");
-				cookieMap.set(cookieParts[0], cookieParts[1]);
+			for (const cookie of cookies.split(/;\s*/)) {
+				//Values may contain '=' as well.
+				const index = cookie.indexOf("=");
+				if (index !== -1) {
+					cookieMap.set(cookie.slice(0, index), cookie.slice(index + 1));
+				}
 			}
 		}
 		return cookieMap;
 	}
+
+	/** Turns a cookie string (from request.headers.cookie) in a map of key-value pairs. */
+	protected cookieStringToMap(cookies: string | undefined): Map<string, string> {
+		return RequestHandler.cookieStringToMap(cookies);
+	}
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Crypto, PublicKey } from "@coinversable/validana-core";
+
+/** The types a schema can require. Like JSON Schema an integer is a number without decimals. */
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * A subset of JSON Schema for describing and validating request data.
+ * Like JSON Schema keywords only apply to values of the type they are meant for, for example minLength is ignored for numbers.
+ * Supported formats are "hex", "base64" and "address" (a valid validana address).
+ */
+export interface Schema {
+	type?: SchemaType | SchemaType[];
+	description?: string;
+	enum?: unknown[];
+	//Numbers
+	minimum?: number;
+	maximum?: number;
+	//Strings
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	format?: "hex" | "base64" | "address";
+	//Arrays
+	items?: Schema;
+	minItems?: number;
+	maxItems?: number;
+	//Objects
+	properties?: { [property: string]: Schema };
+	required?: string[];
+	additionalProperties?: boolean | Schema;
+}
+
+/** Validates values against a schema. */
+export class SchemaValidator {
+	private static readonly formats = new Map<string, (value: string) => boolean>([
+		["hex", (value) => Crypto.isHex(value)],
+		["base64", (value) => Crypto.isBase64(value)],
+		["address", (value) => PublicKey.isValidAddress(value)]
+	]);
+
+	/**
+	 * Validate a value against a schema.
+	 * @param schema The schema the value should match.
+	 * @param value The value to validate.
+	 * @param path The name of the value as used in the error messages.
+	 * @returns A description of every field that does not match the schema, or an empty array if the value is valid.
+	 */
+	public static validate(schema: Schema, value: unknown, path: string = "data"): string[] {
+		const type = SchemaValidator.typeOf(value);
+		if (schema.type !== undefined) {
+			const types = schema.type instanceof Array ? schema.type : [schema.type];
+			if (!types.includes(type as SchemaType) && !(type === "integer" && types.includes("number"))) {
+				return [`${path} should be ${types.map((t) => (t.match(/^[aeiou]/) !== null ? "an " : "a ") + t).join(" or ")}`];
+			}
+		}
+		if (schema.enum !== undefined && !schema.enum.includes(value)) {
+			return [`${path} should be one of: ${schema.enum.join(", ")}`];
+		}
+
+		const errors: string[] = [];
+		if (type === "number" || type === "integer") {
+			if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+				errors.push(`${path} should be at least ${schema.minimum}`);
+			}
+			if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+				errors.push(`${path} should be at most ${schema.maximum}`);
+			}
+		} else if (type === "string") {
+			const stringValue = value as string;
+			if (schema.minLength !== undefined && stringValue.length < schema.minLength) {
+				errors.push(`${path} should be at least ${schema.minLength} characters`);
+			}
+			if (schema.maxLength !== undefined && stringValue.length > schema.maxLength) {
+				errors.push(`${path} should be at most ${schema.maxLength} characters`);
+			}
+			if (schema.pattern !== undefined && stringValue.match(new RegExp(schema.pattern)) === null) {
+				errors.push(`${path} should match pattern ${schema.pattern}`);
+			}
+			if (schema.format !== undefined && SchemaValidator.formats.get(schema.format)?.(stringValue) === false) {
+				errors.push(`${path} should be a valid ${schema.format}`);
+			}
+		} else if (type === "array") {
+			const arrayValue = value as unknown[];
+			if (schema.minItems !== undefined && arrayValue.length < schema.minItems) {
+				errors.push(`${path} should have at least ${schema.minItems} items`);
+			}
+			if (schema.maxItems !== undefined && arrayValue.length > schema.maxItems) {
+				errors.push(`${path} should have at most ${schema.maxItems} items`);
+			}
+			if (schema.items !== undefined) {
+				for (let i = 0; i < arrayValue.length; i++) {
+					errors.push(...SchemaValidator.validate(schema.items, arrayValue[i], `${path}[${i}]`));
+				}
+			}
+		} else if (type === "object") {
+			const objectValue = value as { [property: string]: unknown };
+			for (const property of schema.required ?? []) {
+				if (objectValue[property] === undefined) {
+					errors.push(`${path}.${property} is required`);
+				}
+			}
+			for (const property of Object.keys(objectValue)) {
+				//Undefined is not part of json, treat it as if the property does not exist.
+				if (objectValue[property] === undefined) {
+					continue;
+				}
+				const propertySchema = schema.properties?.[property];
+				if (propertySchema !== undefined) {
+					errors.push(...SchemaValidator.validate(propertySchema, objectValue[property], `${path}.${property}`));
+				} else if (schema.additionalProperties === false) {
+					errors.push(`${path}.${property} is not allowed`);
+				} else if (typeof schema.additionalProperties === "object") {
+					errors.push(...SchemaValidator.validate(schema.additionalProperties, objectValue[property], `${path}.${property}`));
+				}
+			}
+		}
+		return errors;
+	}
+
+	/** Get the schema type of a value. */
+	private static typeOf(value: unknown): SchemaType | "undefined" | "other" {
+		if (value === null) {
+			return "null";
+		} else if (value instanceof Array) {
+			return "array";
+		} else if (typeof value === "number") {
+			return Number.isSafeInteger(value) ? "integer" : Number.isFinite(value) ? "number" : "other";
+		} else if (typeof value === "string" || typeof value === "boolean" || typeof value === "object" || typeof value === "undefined") {
+			return typeof value as "string" | "boolean" | "object" | "undefined";
+		}
+		return "other";
+	}
+}
\ No newline at end of file
@@ -1,25 +1,81 @@
 import { Log } from "@coinversable/validana-core";
+import { randomBytes } from "crypto";
 import { Config } from "../config";
+import { Database } from "./database";
+import { ServerEventEmitter } from "./events";
+import { Metrics } from "./metrics";
+
+/** A notification to invalidate a (named) cache in all workers, without key if the whole cache should be invalidated. */
+interface InvalidateNotification {
+	/** The worker that send it, which already invalidated its own cache. */
+	origin: string;
+	cache?: string;
+	key?: string;
+}
+
+/** A cached value, how to update it and how long it is valid. Durations are in milliseconds. */
+interface CachedData<V> {
+	value: V;
+	update: (key: string) => Promise<any>;
+	duration: number;
+	/** How long after the duration the old value may still be used while updating. */
+	staleDuration: number;
+	lastUpdate: number;
+	/** The update that is currently running, so concurrent requests can share it. */
+	updating?: Promise<V>;
+	/** The approximate size of the value in bytes and when it was determined, if the cache has a size limit. */
+	size?: number;
+	sizedAt?: number;
+}
+
+/** Limits of a non-global cache. Once a limit is exceeded the least recently used keys are evicted. */
+export interface CacheLimits<T> {
+	/** The maximum number of keys. */
+	maxEntries?: number;
+	/** The approximate maximum size (in bytes) of all values together. */
+	maxSize?: number;
+	/** Determine the size (in bytes) of a value, defaults to an approximation based on its contents. */
+	sizeOf?: (value: T) => number;
+	/** Called when a key is evicted because a limit was exceeded or because it expired. */
+	onEvict?: (key: string, value: T, reason: "limit" | "expired") => void;
+}
 
 /**
  * The server cache class is serves as a cache.
  * It comes with instructions on how to update the cache and how long the cache is valid.
  * The static version contains the global cache, but a non-global cache can also be created.
  * It is called ServerCache to avoid naming conflic with the Node Cache.
+ * Invalidating only affects the current worker, invalidateEverywhere() and invalidateAllEverywhere() also invalidate the
+ *  (named) cache in all workers of all servers connected to the same database.
+ * Concurrent requests for an outdated key share a single update. Optionally a key can be stale for a while, in which case
+ *  the old value is used while updating in the background, or if updating fails.
+ * Non-global caches can be limited in number of keys and size, in which case the least recently used keys are evicted.
+ * Hits, misses, failed updates, update time and number of keys are recorded in the metrics for each cache.
  */
 export class ServerCache<T = any> {
+	/** The type of notification used to invalidate the caches of other workers. */
+	private static readonly notificationType = "servercache";
+	/** Identifies this worker, so it can ignore its own invalidate notifications. */
+	private static readonly origin = randomBytes(8).toString("hex");
+	private static isListening = false;
 	/** Global cache. */
-	private static cachedData = new Map<string, { value: any, update: (key: string) => Promise<any>, duration: number, lastUpdate: number }>();
+	private static cachedData = new Map<string, CachedData<any>>();
 	/** List of created caches. */
 	private static createdCaches = new Map<string, ServerCache>();
 	/** Non-global cache. */
-	private cachedData = new Map<string, { value: T, update: (key: string | string[]) => Promise<T | T[]>, duration: number, lastUpdate: number }>();
+	private cachedData = new Map<string, CachedData<T>>();
 	private updateAllMethod: ((key: string | string[]) => Promise<T | T[]>) | undefined;
 	private updateAllDuration: number | undefined;
+	private updateAllStaleDuration: number | undefined;
 	private name: string;
+	private limits: CacheLimits<T>;
+	/** The approximate size of all values together, if there is a size limit. */
+	private size: number = 0;
 
-	private constructor(name: string, clearCacheFrequency: number = 3600) {
+	private constructor(name: string, clearCacheFrequency: number = 3600, limits: CacheLimits<T> = {}) {
 		this.name = name;
+		this.limits = limits;
+		ServerCache.listen();
 		if (clearCacheFrequency >= 1) {
 			setTimeout(() => {
 				this.deleteExpired();
@@ -32,10 +88,11 @@ export class ServerCache<T = any> {
 	 * Create a new server cache or return an existing one with its name.
 	 * @param name The name of the cache.
 	 * @param clearCacheFrequency How frequently it should clear caches in seconds. Use 0 for never, default is once per hour.
+	 * @param limits The maximum number of keys and size of the cache, default is unlimited.
 	 */
-	public static create<R>(name: string, clearCacheFrequency: number = 3600): ServerCache<R> {
+	public static create<R>(name: string, clearCacheFrequency: number = 3600, limits?: CacheLimits<R>): ServerCache<R> {
 		if (!this.createdCaches.has(name)) {
-			this.createdCaches.set(name, new ServerCache<R>(name, clearCacheFrequency));
+			this.createdCaches.set(name, new ServerCache<R>(name, clearCacheFrequency, limits));
 		}
 
 		return this.createdCaches.get(name)!;
@@ -46,30 +103,36 @@ export class ServerCache<T = any> {
 		return ServerCache.cachedData.has(key);
 	}
 
-	/** Add a new key to the global cache, how to update this key and the duraction that this value remains valid in seconds. */
+	/**
+	 * Add a new key to the global cache, how to update this key and the duraction that this value remains valid in seconds.
+	 * @param staleDuration How long (in seconds) after the duration the old value may still be used while updating in the background.
+	 *  If it is not 0 the old value is also used if updating fails.
+	 */
 	public static add(key: string, update: (key: string) => Promise<any>,
-		duration: number = 300, override: boolean = false): void {
+		duration: number = 300, override: boolean = false, staleDuration: number = 0): void {
+		ServerCache.listen();
 		if (!ServerCache.cachedData.has(key) || override) {
-			ServerCache.cachedData.set(key, { value: undefined, update, duration: duration * 1000, lastUpdate: 0 });
+			ServerCache.cachedData.set(key, { value: undefined, update, duration: duration * 1000, staleDuration: staleDuration * 1000, lastUpdate: 0 });
+			Metrics.set("cacheEntries", ServerCache.cachedData.size, ServerCache.labels(undefined));
 		}
 	}
 
-	/** Get data from the global cache. Will reject if the cache is outdated and fails to update. */
+	/** Get data from the global cache. Will reject if the cache is outdated and fails to update (and there is no stale value). */
 	public static async get(key: string): Promise<any> {
 		const cachedData = ServerCache.cachedData.get(key);
 		if (cachedData === undefined) {
 			throw new Error(`Key ${key} is not cached.`);
 		}
-		if (Date.now() > cachedData.lastUpdate + cachedData.duration || !Config.get().VSERVER_CACHING) {
-			try {
-				cachedData.value = await cachedData.update(key);
-				cachedData.lastUpdate = Date.now();
-			} catch (error) {
-				Log.warn(`Failed to update cache for key ${key}`, error);
-				throw new Error("Failed to update cache.");
-			}
+		return ServerCache.getValue(cachedData, key, undefined);
+	}
+
+	/** Get how long (in seconds) until a key in the global cache expires, or 0 if it is expired, not cached or caching is off. */
+	public static expiresIn(key: string): number {
+		const cachedData = ServerCache.cachedData.get(key);
+		if (cachedData === undefined || !Config.get().VSERVER_CACHING) {
+			return 0;
 		}
-		return cachedData.value;
+		return Math.max(0, Math.floor((cachedData.lastUpdate + cachedData.duration - Date.now()) / 1000));
 	}
 
 	/**
@@ -80,6 +143,8 @@ export class ServerCache<T = any> {
 	public static invalidate(key: string, newValue?: any): void {
 		const cachedData = ServerCache.cachedData.get(key);
 		if (cachedData !== undefined) {
+			//An update that is running may be outdated already.
+			cachedData.updating = undefined;
 			if (newValue === undefined) {
 				cachedData.lastUpdate = 0;
 			} else {
@@ -89,17 +154,172 @@ export class ServerCache<T = any> {
 		}
 	}
 
+	/**
+	 * Invalidate a key of the global cache in this and all other workers. (They will not receive the new value, but update themselves.)
+	 * Will reject if the notification could not be send, though the cache of this worker is invalidated regardless.
+	 */
+	public static invalidateEverywhere(key: string, newValue?: any): Promise<void> {
+		ServerCache.invalidate(key, newValue);
+		return ServerCache.broadcast(undefined, key);
+	}
+
 	/** Invalidate the whole global cache, forcing everything to update. */
 	public static invalidateAll(): void {
 		for (const cachedData of ServerCache.cachedData.values()) {
+			cachedData.updating = undefined;
 			cachedData.lastUpdate = 0;
 		}
 	}
 
+	/**
+	 * Invalidate the whole global cache in this and all other workers.
+	 * Will reject if the notification could not be send, though the cache of this worker is invalidated regardless.
+	 */
+	public static invalidateAllEverywhere(): Promise<void> {
+		ServerCache.invalidateAll();
+		return ServerCache.broadcast(undefined);
+	}
+
 	//We do not allow deleteAll or deleteExpired for global.
 	/** Delete a key from the global cache. */
 	public static delete(key: string): void {
 		this.cachedData.delete(key);
+		Metrics.set("cacheEntries", ServerCache.cachedData.size, ServerCache.labels(undefined));
+	}
+
+	/**
+	 * Get the value of a cached key, updating it if it is outdated.
+	 * @param cacheName The name of the non-global cache, or undefined for the global cache.
+	 */
+	private static async getValue<V>(cachedData: CachedData<V>, key: string, cacheName: string | undefined): Promise<V> {
+		const now = Date.now();
+		if (!Config.get().VSERVER_CACHING) {
+			Metrics.increase("cacheMisses", ServerCache.labels(cacheName));
+			return ServerCache.update(cachedData, key, cacheName).catch(() => Promise.reject(new Error("Failed to update cache.")));
+		}
+		if (now <= cachedData.lastUpdate + cachedData.duration) {
+			Metrics.increase("cacheHits", ServerCache.labels(cacheName));
+			return cachedData.value;
+		}
+		const hasStale = cachedData.staleDuration > 0 && cachedData.value !== undefined;
+		if (hasStale && now <= cachedData.lastUpdate + cachedData.duration + cachedData.staleDuration) {
+			//Use the stale value, while updating in the background.
+			Metrics.increase("cacheHits", ServerCache.labels(cacheName));
+			ServerCache.update(cachedData, key, cacheName).catch(() => { });
+			return cachedData.value;
+		}
+		Metrics.increase("cacheMisses", ServerCache.labels(cacheName));
+		try {
+			return await ServerCache.update(cachedData, key, cacheName);
+		} catch (error) {
+			if (hasStale) {
+				return cachedData.value;
+			}
+			throw new Error("Failed to update cache.");
+		}
+	}
+
+	/** Update a cached key, or return the update that is already running for it. */
+	private static update<V>(cachedData: CachedData<V>, key: string, cacheName: string | undefined): Promise<V> {
+		if (cachedData.updating === undefined) {
+			const start = Date.now();
+			const updating: Promise<V> = cachedData.update(key).then((value) => {
+				ServerCache.recordUpdate(cacheName, start);
+				//Do not overwrite if it was invalidated in the meantime.
+				if (cachedData.updating === updating) {
+					cachedData.updating = undefined;
+					cachedData.value = value;
+					cachedData.lastUpdate = Date.now();
+				}
+				return value;
+			}, (error) => {
+				if (cachedData.updating === updating) {
+					cachedData.updating = undefined;
+				}
+				Metrics.increase("cacheFailures", ServerCache.labels(cacheName));
+				Log.warn(`Failed to update cache${cacheName === undefined ? "" : " " + cacheName} for key ${key}`, error);
+				return Promise.reject(error);
+			});
+			cachedData.updating = updating;
+		}
+		return cachedData.updating;
+	}
+
+	/** Record that a cache was updated, which started at a certain time. */
+	private static recordUpdate(cacheName: string | undefined, start: number): void {
+		Metrics.observe("cacheUpdateDuration", Date.now() - start, ServerCache.labels(cacheName));
+	}
+
+	/** Get the labels of the metrics of a cache. */
+	private static labels(cacheName: string | undefined): { cache: string } {
+		return { cache: cacheName ?? "global" };
+	}
+
+	/** Approximate the memory used by a value in bytes. */
+	private static sizeOf(value: unknown, seen: Set<object> = new Set()): number {
+		switch (typeof value) {
+			case "string":
+				return 2 * value.length;
+			case "number":
+			case "bigint":
+				return 8;
+			case "boolean":
+				return 4;
+			case "object":
+				if (value === null || seen.has(value)) {
+					return 0;
+				}
+				seen.add(value);
+				if (Buffer.isBuffer(value)) {
+					return value.length;
+				}
+				let size = 0;
+				if (value instanceof Array || value instanceof Set) {
+					for (const item of value) {
+						size += ServerCache.sizeOf(item, seen);
+					}
+				} else if (value instanceof Map) {
+					for (const [key, item] of value) {
+						size += ServerCache.sizeOf(key, seen) + ServerCache.sizeOf(item, seen);
+					}
+				} else {
+					for (const key of Object.keys(value)) {
+						size += 2 * key.length + ServerCache.sizeOf((value as { [key: string]: unknown })[key], seen);
+					}
+				}
+				return size;
+			default:
+				return 0;
+		}
+	}
+
+	/** Start listening for invalidate notifications from other workers, if not already listening. */
+	private static listen(): void {
+		if (!ServerCache.isListening) {
+			ServerCache.isListening = true;
+			ServerEventEmitter.get("notification").subscribe(undefined, (notification: InvalidateNotification) => {
+				if (notification.origin === ServerCache.origin) {
+					return;
+				}
+				const cache = notification.cache === undefined ? ServerCache : ServerCache.createdCaches.get(notification.cache);
+				if (notification.key === undefined) {
+					cache?.invalidateAll();
+				} else {
+					cache?.invalidate(notification.key);
+				}
+			}, ServerCache.notificationType);
+		}
+	}
+
+	/** Notify all other workers to invalidate a key (or the whole cache if no key is given) of a cache. */
+	private static async broadcast(cache: string | undefined, key?: string): Promise<void> {
+		const notification: InvalidateNotification = { origin: ServerCache.origin, cache, key };
+		try {
+			await Database.get().notify(ServerCache.notificationType, notification);
+		} catch (error) {
+			Log.warn(`Failed to broadcast invalidating cache${cache === undefined ? "" : " " + cache}${key === undefined ? "" : " for key " + key}`, error);
+			throw new Error("Failed to broadcast invalidating cache.");
+		}
 	}
 
 	/** Check if a key exists in the non-global cache. */
@@ -107,11 +327,17 @@ export class ServerCache<T = any> {
 		return this.cachedData.has(key);
 	}
 
-	/** Add a new key to the non-global cache, how to update this key and the duration that this value remains valid in seconds. */
+	/**
+	 * Add a new key to the non-global cache, how to update this key and the duration that this value remains valid in seconds.
+	 * @param staleDuration How long (in seconds) after the duration the old value may still be used while updating in the background.
+	 *  If it is not 0 the old value is also used if updating fails.
+	 */
 	public add(key: string, update: (key: string | string[]) => Promise<T | T[]>,
-		duration: number = 300, override: boolean = false): void {
+		duration: number = 300, override: boolean = false, staleDuration: number = 0): void {
 		if (!this.cachedData.has(key) || override) {
-			this.cachedData.set(key, { value: undefined as any, update, duration: duration * 1000, lastUpdate: 0 });
+			this.remove(key);
+			this.cachedData.set(key, { value: undefined as any, update, duration: duration * 1000, staleDuration: staleDuration * 1000, lastUpdate: 0 });
+			this.use(key);
 		}
 	}
 
@@ -120,34 +346,29 @@ export class ServerCache<T = any> {
 	 * Add a method to add alls keys, how to update those keys and the duration that these values remain values in seconds.
 	 * To support getMultiple() the update method needs to be able to deal with both single keys
 	 *  and arrays and return the result in the same format and order as requested.
+	 * @param staleDuration How long (in seconds) after the duration the old values may still be used while updating in the background.
 	 */
 	public addAll(update: ((keys: string | string[]) => Promise<T | T[]>) | ((keys: string) => Promise<T>),
-		duration: number = 300, override: boolean = false): void {
+		duration: number = 300, override: boolean = false, staleDuration: number = 0): void {
 		if (this.updateAllMethod === undefined || override) {
 			this.updateAllMethod = update;
 			this.updateAllDuration = duration;
+			this.updateAllStaleDuration = staleDuration;
 		}
 	}
 
-	/** Get data from the non-global cache.Will reject if the cache is outdated and fails to update. */
+	/** Get data from the non-global cache. Will reject if the cache is outdated and fails to update (and there is no stale value). */
 	public async get(key: string): Promise<T> {
 		if (!this.cachedData.has(key) && this.updateAllMethod !== undefined) {
-			this.add(key, this.updateAllMethod as any, this.updateAllDuration);
+			this.add(key, this.updateAllMethod as any, this.updateAllDuration, false, this.updateAllStaleDuration);
 		}
 		const cachedData = this.cachedData.get(key);
 		if (cachedData === undefined) {
 			throw new Error(`Key ${key} is not cached.`);
 		}
-		if (Date.now() > cachedData.lastUpdate + cachedData.duration || !Config.get().VSERVER_CACHING) {
-			try {
-				cachedData.value = await cachedData.update(key) as T;
-				cachedData.lastUpdate = Date.now();
-			} catch (error) {
-				Log.warn(`Failed to update cache ${this.name} for key ${key}`, error);
-				throw new Error("Failed to update cache.");
-			}
-		}
-		return cachedData.value;
+		const value = await ServerCache.getValue(cachedData, key, this.name);
+		this.use(key);
+		return value;
 	}
 
 	/**
@@ -159,46 +380,71 @@ export class ServerCache<T = any> {
 			Log.error("An update all method that accepts an array is required for ServerCache.getMultiple().", new Error());
 			throw new Error("Invalid cache usage.");
 		}
-		//Get all keys that are already cached.
+		//Get all keys that are already cached, or are stale but may still be used.
 		const result = new Array(keys.length);
 		const now = Date.now();
 		let uncachedKeys;
+		const staleKeys: string[] = [];
 		if (Config.get().VSERVER_CACHING) {
 			uncachedKeys = [];
 			for (let i = 0; i < keys.length; i++) {
 				const cachedData = this.cachedData.get(keys[i]);
-				if (cachedData === undefined || cachedData.value === undefined || now > cachedData.lastUpdate + cachedData.duration) {
+				if (cachedData === undefined || cachedData.value === undefined || now > cachedData.lastUpdate + cachedData.duration + cachedData.staleDuration) {
 					uncachedKeys.push(keys[i]);
 				} else {
+					Metrics.increase("cacheHits", ServerCache.labels(this.name));
+					if (now > cachedData.lastUpdate + cachedData.duration) {
+						staleKeys.push(keys[i]);
+					}
 					result[i] = cachedData.value;
 				}
 			}
 		} else {
 			uncachedKeys = keys;
 		}
+		Metrics.increase("cacheMisses", ServerCache.labels(this.name), uncachedKeys.length);
+		if (staleKeys.length !== 0) {
+			//Update the stale keys in the background.
+			this.updateMultiple(staleKeys).catch(() => { });
+		}
 		if (uncachedKeys.length !== 0) {
 			//Get all keys which are not yet cached
 			let toCache;
 			try {
-				toCache = await this.updateAllMethod(uncachedKeys) as T[];
+				toCache = await this.updateMultiple(uncachedKeys);
 			} catch (error) {
-				Log.warn(`Failed to update cache ${this.name} for keys ${uncachedKeys.toString()}`, error);
-				throw new Error("Failed to update cache.");
+				//Use stale values if all keys have one.
+				if (uncachedKeys.every((key) => this.cachedData.get(key)?.value !== undefined && this.cachedData.get(key)!.staleDuration > 0)) {
+					toCache = uncachedKeys.map((key) => this.cachedData.get(key)!.value);
+				} else {
+					throw new Error("Failed to update cache.");
+				}
 			}
-			//Fill in result and cache the keys
+			//Fill in result
 			let j = 0;
 			for (let i = 0; i < result.length; i++) {
 				if (result[i] === undefined) {
-					this.cachedData.set(uncachedKeys[j], { value: toCache[j], update: this.updateAllMethod, duration: this.updateAllDuration! * 1000, lastUpdate: now });
 					result[i] = toCache[j];
 					j++;
 				}
 			}
 		}
+		for (const key of keys) {
+			this.use(key);
+		}
 
 		return result;
 	}
 
+	/** Get how long (in seconds) until a key in the non-global cache expires, or 0 if it is expired, not cached or caching is off. */
+	public expiresIn(key: string): number {
+		const cachedData = this.cachedData.get(key);
+		if (cachedData === undefined || !Config.get().VSERVER_CACHING) {
+			return 0;
+		}
+		return Math.max(0, Math.floor((cachedData.lastUpdate + cachedData.duration - Date.now()) / 1000));
+	}
+
 	/**
 	 * Invalidate the non-global cache (or update the cache manually).
 	 * Can be used to force the cache to update.
@@ -207,41 +453,186 @@ export class ServerCache<T = any> {
 	public invalidate(key: string, newValue?: T): void {
 		const cachedData = this.cachedData.get(key);
 		if (cachedData !== undefined) {
+			//An update that is running may be outdated already.
+			cachedData.updating = undefined;
 			if (newValue === undefined) {
 				cachedData.lastUpdate = 0;
 			} else {
 				cachedData.value = newValue;
 				cachedData.lastUpdate = Date.now();
+				this.use(key);
 			}
 		}
 	}
 
+	/**
+	 * Invalidate a key of the non-global cache and of the cache with the same name in all other workers.
+	 * Will reject if the notification could not be send, though the cache of this worker is invalidated regardless.
+	 */
+	public invalidateEverywhere(key: string, newValue?: T): Promise<void> {
+		this.invalidate(key, newValue);
+		return ServerCache.broadcast(this.name, key);
+	}
+
 	/** Invalidate the whole non-global cache, forcing everything to update. */
 	public invalidateAll(): void {
 		for (const cachedData of this.cachedData.values()) {
+			cachedData.updating = undefined;
 			cachedData.lastUpdate = 0;
 		}
 	}
 
+	/**
+	 * Invalidate the whole non-global cache and the cache with the same name in all other workers.
+	 * Will reject if the notification could not be send, though the cache of this worker is invalidated regardless.
+	 */
+	public invalidateAllEverywhere(): Promise<void> {
+		this.invalidateAll();
+		return ServerCache.broadcast(this.name);
+	}
+
 	/** Delete a key from the non-global cache. */
 	public delete(key: string): void {
-		this.cachedData.delete(key);
+		this.remove(key);
+	}
+
+	/**
+	 * Update multiple keys with the update all method and cache them.
+	 * Keys that are already being updated share that update, only the other keys are requested.
+	 */
+	private updateMultiple(keys: string[]): Promise<T[]> {
+		const updates: Array<Promise<T>> = new Array(keys.length);
+		const toUpdate: string[] = [];
+		for (let i = 0; i < keys.length; i++) {
+			const updating = this.cachedData.get(keys[i])?.updating;
+			if (updating !== undefined) {
+				updates[i] = updating;
+			} else {
+				toUpdate.push(keys[i]);
+			}
+		}
+		if (toUpdate.length === 0) {
+			return Promise.all(updates);
+		}
+
+		const start = Date.now();
+		const updatingAll: Promise<T[]> = this.updateAllMethod!(toUpdate).then((values) => {
+			ServerCache.recordUpdate(this.name, start);
+			return values as T[];
+		}, (error) => {
+			Metrics.increase("cacheFailures", ServerCache.labels(this.name));
+			Log.warn(`Failed to update cache ${this.name} for keys ${toUpdate.toString()}`, error);
+			return Promise.reject(error);
+		});
+		let j = 0;
+		for (let i = 0; i < keys.length; i++) {
+			if (updates[i] !== undefined) {
+				continue;
+			}
+			const key = keys[i];
+			const index = j++;
+			let cachedData = this.cachedData.get(key);
+			if (cachedData === undefined) {
+				cachedData = {
+					value: undefined as any,
+					update: this.updateAllMethod!,
+					duration: this.updateAllDuration! * 1000,
+					staleDuration: this.updateAllStaleDuration! * 1000,
+					lastUpdate: 0
+				};
+				this.cachedData.set(key, cachedData);
+				this.use(key);
+			}
+			const data = cachedData;
+			const updating: Promise<T> = updatingAll.then((values) => {
+				//Do not overwrite if it was invalidated or deleted in the meantime.
+				if (data.updating === updating && this.cachedData.get(key) === data) {
+					data.updating = undefined;
+					data.value = values[index];
+					data.update = this.updateAllMethod!;
+					data.duration = this.updateAllDuration! * 1000;
+					data.staleDuration = this.updateAllStaleDuration! * 1000;
+					data.lastUpdate = Date.now();
+					this.use(key);
+				}
+				return values[index];
+			}, (error) => {
+				if (data.updating === updating) {
+					data.updating = undefined;
+				}
+				return Promise.reject(error);
+			});
+			data.updating = updating;
+			updates[i] = updating;
+		}
+		return Promise.all(updates);
 	}
 
 	/** Delete all keys from the non-global cache. */
 	public deleteAll(): void {
 		this.cachedData.clear();
+		this.size = 0;
+		Metrics.set("cacheEntries", 0, ServerCache.labels(this.name));
 		this.updateAllMethod = undefined;
 	}
 
-	/** Delete all expired keys from the non-global cache. */
+	/** Delete all expired keys (that can no longer be used as stale value) from the non-global cache. */
 	public deleteExpired(): void {
 		const now = Date.now();
 		for (const key of this.cachedData.keys()) {
 			const cachedData = this.cachedData.get(key)!;
-			if (cachedData.lastUpdate + cachedData.duration < now) {
-				this.cachedData.delete(key);
+			if (cachedData.lastUpdate + cachedData.duration + cachedData.staleDuration < now) {
+				this.remove(key);
+				if (this.limits.onEvict !== undefined && cachedData.value !== undefined) {
+					this.limits.onEvict(key, cachedData.value, "expired");
+				}
 			}
 		}
 	}
-}
\ No newline at end of file
+
+	/** Mark a key as most recently used, update its size and evict the least recently used keys if a limit is exceeded. */
+	private use(key: string): void {
+		const cachedData = this.cachedData.get(key);
+		//It may have been deleted while updating.
+		if (cachedData === undefined) {
+			return;
+		}
+		//Maps keep insertion order, so reinserting makes it the most recently used.
+		this.cachedData.delete(key);
+		this.cachedData.set(key, cachedData);
+		if (this.limits.maxSize !== undefined && cachedData.sizedAt !== cachedData.lastUpdate) {
+			const size = cachedData.value === undefined ? 0 : this.limits.sizeOf?.(cachedData.value) ?? ServerCache.sizeOf(cachedData.value);
+			this.size += size - (cachedData.size ?? 0);
+			cachedData.size = size;
+			cachedData.sizedAt = cachedData.lastUpdate;
+		}
+		for (const [evictKey, evictData] of this.cachedData) {
+			if (this.cachedData.size <= (this.limits.maxEntries ?? Infinity) && this.size <= (this.limits.maxSize ?? Infinity)) {
+				break;
+			}
+			this.remove(evictKey);
+			if (this.limits.onEvict !== undefined && evictData.value !== undefined) {
+				this.limits.onEvict(evictKey, evictData.value, "limit");
+			}
+		}
+		Metrics.set("cacheEntries", this.cachedData.size, ServerCache.labels(this.name));
+	}
+
+	/** Remove a key from the non-global cache. */
+	private remove(key: string): void {
+		this.size -= this.cachedData.get(key)?.size ?? 0;
+		this.cachedData.delete(key);
+		Metrics.set("cacheEntries", this.cachedData.size, ServerCache.labels(this.name));
+	}
+}
+
+Metrics.addCounter("cacheHits", { help: "The number of times a value was served from the cache.", labels: ["cache"] });
+Metrics.addCounter("cacheMisses", { help: "The number of times a value was not cached or outdated.", labels: ["cache"] });
+Metrics.addCounter("cacheFailures", { help: "The number of times updating the cache failed.", labels: ["cache"] });
+Metrics.addHistogram("cacheUpdateDuration", {
+	help: "How long it took to update the cache.",
+	labels: ["cache"],
+	buckets: [8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096],
+	prometheusScale: 1000
+});
+Metrics.addGauge("cacheEntries", { help: "The number of keys in the cache.", labels: ["cache"] });
\ No newline at end of file
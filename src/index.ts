@@ -11,18 +11,28 @@ export { Crypto, Log, c, Transaction, Block, PrivateKey, PublicKey } from "@coin
 export { Protocol, Message } from "./protocol/protocol";
 export { HttpProtocol } from "./protocol/http";
 export { WebsocketProtocol } from "./protocol/websocket";
+export { SseProtocol } from "./protocol/sse";
+export { JsonRpc, JsonRpcRequest, JsonRpcResponse, JsonRpcError, JsonRpcErrorCode } from "./protocol/jsonrpc";
 
 export { addBasics } from "./basics/addbasics";
-export { BasicRequestTypes, BasicPushTypes, RequestData, ReponseData, PushData, ProcessRequest, TxRequest, Contract, TxResponseOrPush } from "./basics/basicapi";
+export { BasicRequestTypes, BasicPushTypes, RequestData, ReponseData, PushData, ProcessRequest, TxRequest, Contract, TxResponseOrPush,
+	BlockRequest, BlocksRequest, BlockResponse, TxSearchRequest, TxSearchResponse, TxCursor,
+	SubscriptionRequest, SubscriptionsResponse, BlockPush, ChallengeResponse, LoginRequest, LoginResponse } from "./basics/basicapi";
 import BasicHandler from "./basics/basichandler";
 export { BasicHandler };
 
-export { ServerEventEmitter, ServerEventGenerator } from "./core/events";
-export { Database, DBTransaction, TransactionStatus } from "./core/database";
-export { ServerCache } from "./core/servercache";
-export { RequestHandler } from "./core/requesthandler";
+export { ServerEventEmitter, ServerEventGenerator, BlockNotification } from "./core/events";
+export { Database, DBTransaction, DBBlock, TransactionStatus, DatabaseStats } from "./core/database";
+export { ServerCache, CacheLimits } from "./core/servercache";
+export { RequestHandler, MessageHandlerOptions, PushTypeOptions, Middleware, MiddlewareContext, Route } from "./core/requesthandler";
+export { ApiDocs } from "./core/apidocs";
+export { RateLimiter, RateLimitBudget } from "./core/ratelimiter";
+export { Authentication, Authenticator, Credentials, Principal } from "./core/auth";
+export { Cors, CorsPolicy } from "./core/cors";
+export { Health, HealthCheck } from "./core/health";
+export { Schema, SchemaType, SchemaValidator } from "./core/schema";
 export { HttpServer } from "./core/httpserver";
-export { Metrics } from "./core/metrics";
+export { Metrics, MetricOptions, HistogramOptions, GaugeOptions } from "./core/metrics";
 
 export { Config } from "./config";
 export { start } from "./app";
@@ -8,6 +8,8 @@
 
 import * as querystring from "querystring";
 import * as http from "http";
+import * as Zlib from "zlib";
+import * as Encryption from "crypto";
 import { Socket } from "net";
 import { Worker } from "cluster";
 import { Log } from "@coinversable/validana-core";
@@ -16,17 +18,15 @@ import { Config } from "../config";
 import { RequestHandler } from "../core/requesthandler";
 import { HttpServer } from "../core/httpserver";
 import { Metrics } from "../core/metrics";
+import { JsonRpc } from "./jsonrpc";
+import { ApiDocs } from "../core/apidocs";
+import { Cors } from "../core/cors";
 
 export class HttpProtocol extends Protocol {
-	private static readonly headerOptionsFailed = {
-		"Access-Control-Allow-Origin": "*",
-		"Access-Control-Allow-Methods": "POST, GET",
-		"Access-Control-Allow-Headers": "origin, content-type, accept",
-		"Access-Control-Max-Age": 86400
-	};
-	private static readonly headerOptionsSuccess = Object.assign({
-		"Content-Type": "application/json"
-	}, HttpProtocol.headerOptionsFailed);
+	/** The request type for sending multiple requests at once (using a post request). */
+	private static readonly batchType = "batch";
+	/** Brotli is slow at its default (maximum) quality, use a quality similar to the gzip default instead. */
+	private static readonly brotliOptions: Zlib.BrotliOptions = { params: { [Zlib.constants.BROTLI_PARAM_QUALITY]: 5 } };
 	private readonly httpServer: HttpServer;
 	private readonly maxPayloadSize: number;
 
@@ -63,6 +63,10 @@ export class HttpProtocol extends Protocol {
 		this.httpServer.server.on("connection", (socket) => socket.setTimeout(120000, () => socket.destroy()));
 
 		this.httpServer.server.on("request", (request: http.IncomingMessage, response: http.ServerResponse) => {
+			//Requests that are handled by another protocol on this server.
+			if (this.httpServer.isClaimed(request)) {
+				return;
+			}
 			//Remove timeout now request has come in.
 			request.socket.setTimeout(0);
 			//Add to list of active connections (due to keepalive, a request may reuse the same socket)
@@ -73,15 +77,16 @@ export class HttpProtocol extends Protocol {
 
 			//Support pre-flight requests
 			if (request.method === "OPTIONS") {
-				Metrics.stats.requestsSuccessresponset++;
-				response.writeHead(200, HttpProtocol.headerOptionsFailed);
+				Metrics.stats.requestsSuccessRest++;
+				const preflightVersion = request.url!.split(/[\/?]/).find((part) => this.apiVersions.has(part));
+				response.writeHead(200, Cors.getHeaders(request, preflightVersion, true));
 				response.end();
 				return;
 			}
 
 			if (request.url!.length > this.maxPayloadSize) {
-				Metrics.stats.requestsClientErrorresponset++;
-				response.writeHead(414, HttpProtocol.headerOptionsFailed);
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(414, Cors.getHeaders(request));
 				response.end();
 				return;
 			}
@@ -89,8 +94,8 @@ export class HttpProtocol extends Protocol {
 			try {
 				url = decodeURI(request.url!);
 			} catch (error) {
-				Metrics.stats.requestsClientErrorresponset++;
-				response.writeHead(400, HttpProtocol.headerOptionsFailed);
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
 				response.end("Invalid request url.");
 				return;
 			}
@@ -101,8 +106,8 @@ export class HttpProtocol extends Protocol {
 
 			//See if it has an api version and request type
 			if (urlParts === null || urlParts.length < 2) {
-				Metrics.stats.requestsClientErrorresponset++;
-				response.writeHead(400, HttpProtocol.headerOptionsFailed);
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
 				response.end("Missing api version or request type.");
 				return;
 			}
@@ -110,8 +115,8 @@ export class HttpProtocol extends Protocol {
 			//Get the api version and requestType
 			const versionIndex = urlParts.findIndex((part) => this.apiVersions.has(part));
 			if (versionIndex === -1) {
-				Metrics.stats.requestsClientErrorresponset++;
-				response.writeHead(400, HttpProtocol.headerOptionsFailed);
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
 				response.end("Api version missing or not supported.");
 				return;
 			}
@@ -137,9 +142,18 @@ export class HttpProtocol extends Protocol {
 					}
 				}
 
+				//The api documentation of this version.
+				if (type === ApiDocs.openApiType || type === ApiDocs.asyncApiType) {
+					const RH = this.apiVersions.get(version)!;
+					this.sendResponse({ log: false, request, response, version, protocol: this, session: {} },
+						type === ApiDocs.openApiType ? ApiDocs.openApi(version, RH) : ApiDocs.asyncApi(version, RH));
+					return;
+				}
+
+				const routed = this.route(version, request.method, type, urlParts.slice(versionIndex + 1), data);
 				this.requestHandler({
 					log: true, request, response, version, protocol: this, latencyStart: Date.now(), session: {}
-				}, type, data, query);
+				}, routed.type, routed.data, query);
 			} else if (request.method === "POST") {
 				//In case of a post request read the request body and try to parse it as json.
 				let body = "";
@@ -148,8 +162,8 @@ export class HttpProtocol extends Protocol {
 				request.on("data", (postData) => {
 					body += postData.toString();
 					if (this.maxPayloadSize !== 0 && body.length > this.maxPayloadSize) {
-						Metrics.stats.requestsClientErrorresponset++;
-						response.writeHead(413, HttpProtocol.headerOptionsFailed);
+						Metrics.stats.requestsClientErrorRest++;
+						response.writeHead(413, Cors.getHeaders(request, version));
 						response.end("Payload too large.");
 						return;
 					}
@@ -171,18 +185,34 @@ export class HttpProtocol extends Protocol {
 						}
 					}
 
+					if (type === JsonRpc.type) {
+						this.jsonRpcHandler(request, response, version, body);
+						return;
+					}
+					if (type === HttpProtocol.batchType) {
+						this.batchHandler(request, response, version, body);
+						return;
+					}
+
+					const routed = this.route(version, request.method!, type, urlParts.slice(versionIndex + 1), data);
 					this.requestHandler({
 						log: true, request, response, version, protocol: this, latencyStart: Date.now(), session: {}
-					}, type, data, body);
+					}, routed.type, routed.data, body);
 				});
 			} else {
 				Metrics.stats.requestsClientErrorRest++;
-				response.writeHead(405, HttpProtocol.headerOptionsFailed);
+				response.writeHead(405, Cors.getHeaders(request, version));
 				response.end("Invalid request method.");
 			}
 		});
 	}
 
+	/** Use a route of the request handler if there is no message type for the path. */
+	private route(version: string, method: string, type: string, path: string[], data: unknown): { type: string, data: unknown } {
+		const RH = this.apiVersions.get(version)!;
+		return RH.hasMessageHandler(type) ? { type, data } : RH.matchRoute(method, path, data) ?? { type, data };
+	}
+
 	/** Handle a get or post request by creating a request handler and providing it with the request data. */
 	private async requestHandler(message: Message<http.ServerResponse>, type: string, data: unknown, dataString: string): Promise<void> {
 		//Create a request handler for this request version and add it the the list of connected request handlers.
@@ -201,6 +231,9 @@ export class HttpProtocol extends Protocol {
 				Log.warn("Request data that resulted in error: " + dataString);
 				Log.error(`Error occured during request of type ${message.version}:${type}.`, error);
 				//Do not send actual error message for safety.
+				if (message.statusCode === undefined) {
+					message.statusCode = 500;
+				}
 				this.sendError(message, "Error occured during request.");
 			} else {
 				//Set the status code as a client error if not yet set.
@@ -213,6 +246,204 @@ export class HttpProtocol extends Protocol {
 		if (message.latencyStart !== undefined) {
 			Metrics.recordLatency(message.latencyStart);
 		}
+		this.recordMessage(message, type, "rest");
+	}
+
+	/** Handle a JSON-RPC request (or batch of requests) that was send as body of a post request. */
+	private async jsonRpcHandler(request: http.IncomingMessage, response: http.ServerResponse, version: string, body: string): Promise<void> {
+		let result;
+		let parsedBody: unknown;
+		try {
+			parsedBody = JSON.parse(body);
+		} catch (error) {
+			Metrics.stats.requestsClientErrorRest++;
+			result = JsonRpc.parseError();
+		}
+		if (result === undefined) {
+			//All requests in a batch share the same session.
+			const session = {};
+			result = await JsonRpc.process(this.apiVersions.get(version)!, parsedBody,
+				() => ({ log: true, request, response, version, protocol: this, latencyStart: Date.now(), session }),
+				(message, type) => {
+					HttpProtocol.recordRequest(message.statusCode!);
+					this.recordMessage(message, type, "rest");
+				});
+		}
+
+		if (!request.socket.writableEnded && !request.socket.destroyed) {
+			//Errors are part of the JSON-RPC response, if there is nothing to respond with (only notifications) send no content.
+			if (result === undefined) {
+				response.writeHead(204, Cors.getHeaders(request, version));
+				response.end();
+			} else {
+				HttpProtocol.send(request, response, 200, HttpProtocol.headersSuccess(request, version), JSON.stringify(result));
+			}
+		}
+	}
+
+	/**
+	 * Handle a batch of requests that was send as body of a post request, in the format: [{type: string, data?: any}].
+	 * Responds with an array in the same order in the format: [{status: number, data?: any, error?: string}].
+	 * Responds with 413 if the batch contains more than VSERVER_MAXBATCHSIZE requests.
+	 */
+	private async batchHandler(request: http.IncomingMessage, response: http.ServerResponse, version: string, body: string): Promise<void> {
+		let entries: unknown;
+		try {
+			entries = JSON.parse(body);
+		} catch (error) {
+			entries = undefined;
+		}
+		if (!(entries instanceof Array)) {
+			HttpProtocol.recordRequest(400);
+			response.writeHead(400, Cors.getHeaders(request, version));
+			response.end("Batch request should be an array of requests.");
+			return;
+		}
+		if (entries.length > Config.get().VSERVER_MAXBATCHSIZE) {
+			HttpProtocol.recordRequest(413);
+			response.writeHead(413, Cors.getHeaders(request, version));
+			response.end(`Batch request may contain at most ${Config.get().VSERVER_MAXBATCHSIZE} requests.`);
+			return;
+		}
+
+		//All requests in a batch share the same session.
+		const session = {};
+		const results = await Protocol.processBatch(entries, async (entry) => this.batchEntryHandler({
+			log: true, request, response, version, protocol: this, latencyStart: Date.now(), session
+		}, entry));
+
+		if (!request.socket.writableEnded && !request.socket.destroyed) {
+			const resultString = JSON.stringify(results);
+			Log.debug(`Send response: ${resultString.slice(0, 2000)}`);
+			HttpProtocol.send(request, response, 200, HttpProtocol.headersSuccess(request, version), resultString);
+		}
+	}
+
+	/** Handle a single request of a batch, returning its result instead of sending it. */
+	private async batchEntryHandler(message: Message<http.ServerResponse>, entry: { type: string, data?: unknown }): Promise<{ status: number, data?: unknown, error?: string }> {
+		if (typeof entry !== "object" || entry === null || typeof entry.type !== "string") {
+			HttpProtocol.recordRequest(400);
+			return { status: 400, error: "Request is missing or has an invalid request type" };
+		}
+		const type = entry.type.toLowerCase();
+		const RH = this.apiVersions.get(message.version)!;
+		const dataString = JSON.stringify(entry.data) ?? "";
+		if (!RH.doNotLog.has(type)) {
+			//Fastest way to remove sessionId. When using a different name use addMessageHandler with log=false
+			const toLog = dataString.slice(0, 1000).replace(/sessionId"\s*:\s*"(.{5})[^"]+/, `sessionId":"$1***`);
+			Log.debug(`Received message ${message.version}:${type}: ${toLog}`);
+		}
+
+		let result: { status: number, data?: unknown, error?: string };
+		try {
+			const data = await RH.receiveMessage(type, entry.data, message);
+			result = { status: message.statusCode ?? 200, data };
+		} catch (error) {
+			//Differentiate between internal errors and rejects caused by bad client requests/other info.
+			if (error instanceof Error) {
+				Log.warn("Request data that resulted in error: " + dataString);
+				Log.error(`Error occured during request of type ${message.version}:${type}.`, error);
+				//Do not send actual error message for safety.
+				result = { status: message.statusCode ?? 500, error: "Error occured during request." };
+			} else {
+				//Set the status code as a client error if not yet set.
+				result = { status: message.statusCode ?? 400, error: String(error) };
+			}
+		}
+		HttpProtocol.recordRequest(result.status);
+		if (message.latencyStart !== undefined) {
+			Metrics.recordLatency(message.latencyStart);
+		}
+		this.recordMessage(message, type, "rest", result.status);
+		return result;
+	}
+
+	/** Get the headers for a successful response. */
+	private static headersSuccess(request: http.IncomingMessage, version: string): { [header: string]: string } {
+		return Object.assign({ "Content-Type": "application/json" }, Cors.getHeaders(request, version));
+	}
+
+	/** Send a response, compressing the body if it is large enough and the client accepts it. */
+	private static send(request: http.IncomingMessage, response: http.ServerResponse, statusCode: number,
+		headers: { [header: string]: string }, body: string | Buffer | undefined): void {
+
+		if (!Config.get().VSERVER_COMPRESSION || body === undefined || headers["Content-Encoding"] !== undefined
+			|| Buffer.byteLength(body) < Config.get().VSERVER_COMPRESSIONTHRESHOLD) {
+			response.writeHead(statusCode, headers);
+			response.end(body);
+			return;
+		}
+		//The response depends on what encodings the client accepts, so caches should take it into account.
+		headers.Vary = headers.Vary === undefined ? "Accept-Encoding" : `${headers.Vary}, Accept-Encoding`;
+		const encoding = HttpProtocol.getEncoding(request);
+		if (encoding === undefined) {
+			response.writeHead(statusCode, headers);
+			response.end(body);
+			return;
+		}
+
+		const callback = (error: Error | null, compressed: Buffer): void => {
+			if (request.socket.writableEnded || request.socket.destroyed) {
+				return;
+			}
+			if (error !== null) {
+				Log.warn("Failed to compress response", error);
+				response.writeHead(statusCode, headers);
+				response.end(body);
+			} else {
+				headers["Content-Encoding"] = encoding;
+				response.writeHead(statusCode, headers);
+				response.end(compressed);
+			}
+		};
+		if (encoding === "br") {
+			Zlib.brotliCompress(body, HttpProtocol.brotliOptions, callback);
+		} else {
+			Zlib.gzip(body, callback);
+		}
+	}
+
+	/** Get the ETag as set by the message handler, or compute a weak ETag (as it may be compressed) from the response. */
+	private static getETag(etag: string | undefined, body: string | Buffer | undefined): string {
+		if (etag !== undefined) {
+			return etag.startsWith("\"") || etag.startsWith("W/\"") ? etag : `"${etag}"`;
+		}
+		return `W/"${Encryption.createHash("sha1").update(body ?? "").digest("base64")}"`;
+	}
+
+	/** Check if the client already has a response with this ETag. Uses weak comparison, as required for If-None-Match. */
+	private static matchesETag(request: http.IncomingMessage, etag: string): boolean {
+		const ifNoneMatch = request.headers["if-none-match"];
+		if (ifNoneMatch === undefined) {
+			return false;
+		}
+		const opaqueTag = etag.replace(/^W\//, "");
+		return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || tag.trim().replace(/^W\//, "") === opaqueTag);
+	}
+
+	/** Get the preferred encoding the client accepts, if any. */
+	private static getEncoding(request: http.IncomingMessage): "br" | "gzip" | undefined {
+		const accepted = new Set<string>();
+		const header = request.headers["accept-encoding"];
+		for (const encoding of (header instanceof Array ? header.join(",") : header)?.split(",") ?? []) {
+			const [name, ...params] = encoding.trim().split(";");
+			//Encodings with q=0 are explicitly not accepted.
+			if (!params.some((param) => param.trim().match(/^q=0(\.0*)?$/) !== null)) {
+				accepted.add(name.trim().toLowerCase());
+			}
+		}
+		return accepted.has("br") ? "br" : accepted.has("gzip") ? "gzip" : undefined;
+	}
+
+	/** Record the result of a request in the metrics. */
+	private static recordRequest(statusCode: number): void {
+		if (statusCode < 400) {
+			Metrics.stats.requestsSuccessRest++;
+		} else if (statusCode < 500) {
+			Metrics.stats.requestsClientErrorRest++;
+		} else {
+			Metrics.stats.requestsServerErrorRest++;
+		}
 	}
 
 	public shutdown(permanent: boolean, graceful: boolean): Promise<void> {
@@ -224,18 +455,19 @@ export class HttpProtocol extends Protocol {
 			//Get status code
 			const statusCode = message.statusCode ?? 200;
 			if (statusCode < 400) {
-				Metrics.stats.requestsSuccessresponset++;
+				Metrics.stats.requestsSuccessRest++;
 			} else if (statusCode < 500) {
-				Metrics.stats.requestsClientErrorresponset++;
+				Metrics.stats.requestsClientErrorRest++;
 			} else {
-				Metrics.stats.requestsServerErrorresponset++;
+				Metrics.stats.requestsServerErrorRest++;
 			}
 
 			//Add headers and send response
 			let dataString: any;
+			let headers = HttpProtocol.headersSuccess(message.request, message.version);
 			if (message.responseHeaders !== undefined) {
-				//We create a new copy to not modify headerOptionsSuccess, but headers should be able to overwrite the default options.
-				message.response.writeHead(statusCode, Object.assign({}, HttpProtocol.headerOptionsSuccess, message.responseHeaders));
+				//Headers should be able to overwrite the default options.
+				headers = Object.assign(headers, message.responseHeaders);
 				if (message.responseHeaders["Content-Type"] !== undefined) {
 					dataString = data;
 				} else {
@@ -243,12 +475,27 @@ export class HttpProtocol extends Protocol {
 				}
 			} else {
 				dataString = JSON.stringify(data);
-				message.response.writeHead(statusCode, HttpProtocol.headerOptionsSuccess);
+			}
+			//Cacheable responses to get requests, which are not send if the client already has it.
+			if (message.request.method === "GET" && statusCode === 200 && (message.cacheDuration !== undefined || message.etag !== undefined)) {
+				const etag = HttpProtocol.getETag(message.etag, dataString);
+				headers.ETag = etag;
+				headers["Cache-Control"] = message.cacheDuration !== undefined && message.cacheDuration > 0 ? `max-age=${message.cacheDuration}` : "no-cache";
+				if (HttpProtocol.matchesETag(message.request, etag)) {
+					//Content headers do not apply to a response without content.
+					delete headers["Content-Type"];
+					if (message.log) {
+						Log.debug("Send response: not modified");
+					}
+					message.response.writeHead(304, headers);
+					message.response.end();
+					return;
+				}
 			}
 			if (message.log) {
 				Log.debug(`Send response: ${dataString === undefined ? undefined : dataString.slice(0, 2000)}`);
 			}
-			message.response.end(dataString);
+			HttpProtocol.send(message.request, message.response, statusCode, headers, dataString);
 		}
 	}
 
@@ -272,17 +519,17 @@ export class HttpProtocol extends Protocol {
 			//Get status code
 			const statusCode = message.statusCode ?? 500;
 			if (statusCode >= 400 && statusCode < 500) {
-				Metrics.stats.requestsClientErrorresponset++;
+				Metrics.stats.requestsClientErrorRest++;
 			} else { //sendError should only be used for errors
-				Metrics.stats.requestsServerErrorresponset++;
+				Metrics.stats.requestsServerErrorRest++;
 			}
 
 			//Add headers
 			if (message.responseHeaders !== undefined) {
-				//We create a new copy to not modify headerOptionsFailed, but headers should be able to overwrite the default options.
-				message.response.writeHead(statusCode, Object.assign({}, HttpProtocol.headerOptionsFailed, message.responseHeaders));
+				//Headers should be able to overwrite the default options.
+				message.response.writeHead(statusCode, Object.assign(Cors.getHeaders(message.request, message.version), message.responseHeaders));
 			} else {
-				message.response.writeHead(statusCode, HttpProtocol.headerOptionsFailed);
+				message.response.writeHead(statusCode, Cors.getHeaders(message.request, message.version));
 			}
 			message.response.end(error);
 		}
@@ -0,0 +1,155 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import { Log } from "@coinversable/validana-core";
+import { Message, Protocol } from "./protocol";
+import { Config } from "../config";
+import { RequestHandler } from "../core/requesthandler";
+import { Metrics } from "../core/metrics";
+
+/** A JSON-RPC 2.0 request. Without an id it is a notification, for which no response is send. */
+export interface JsonRpcRequest {
+	jsonrpc: "2.0";
+	method: string;
+	params?: unknown;
+	id?: string | number | null;
+}
+
+/** A JSON-RPC 2.0 response. */
+export interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: JsonRpcError;
+}
+
+export interface JsonRpcError {
+	code: number;
+	message: string;
+	/** The status code the request would have resulted in for other protocols. */
+	data?: { status: number };
+}
+
+/** The error codes as defined by JSON-RPC 2.0. */
+export enum JsonRpcErrorCode {
+	ParseError = -32700,
+	InvalidRequest = -32600,
+	MethodNotFound = -32601,
+	/** Used if the params do not match the schema of the message handler. */
+	InvalidParams = -32602,
+	InternalError = -32603,
+	/** Used for all other status codes, which can be found in the error data. */
+	ServerError = -32000
+}
+
+/**
+ * Helper for protocols that support JSON-RPC 2.0 (when connecting to: /version/jsonrpc).
+ * The method is used as message type and the params as data. Pushes are send as notifications with the push type as method.
+ */
+export class JsonRpc {
+	/** The request type protocols use to switch to JSON-RPC. */
+	public static readonly type = "jsonrpc";
+
+	/** Create a response for a request (or batch) that is not valid json. */
+	public static parseError(): JsonRpcResponse {
+		return { jsonrpc: "2.0", id: null, error: { code: JsonRpcErrorCode.ParseError, message: "Parse error" } };
+	}
+
+	/** Create a notification for a push message. */
+	public static notification(pushType: string, data: unknown): Omit<JsonRpcRequest, "id"> {
+		return { jsonrpc: "2.0", method: pushType, params: data };
+	}
+
+	/**
+	 * Process a (batch of) JSON-RPC request(s).
+	 * @param requestHandler The request handler for the api version.
+	 * @param body The parsed request body.
+	 * @param createMessage Create a new message for a request.
+	 * @param finished Called once a request is finished, with the statusCode of the message set and the type if the request was valid.
+	 * @returns The response(s) to send, or undefined if nothing should be send (in case of only notifications).
+	 */
+	public static async process(requestHandler: RequestHandler, body: unknown, createMessage: () => Message,
+		finished: (message: Message, type?: string) => void): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+
+		if (body instanceof Array) {
+			if (body.length === 0) {
+				return { jsonrpc: "2.0", id: null, error: { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request" } };
+			}
+			if (body.length > Config.get().VSERVER_MAXBATCHSIZE) {
+				return { jsonrpc: "2.0", id: null, error: { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request", data: { status: 413 } } };
+			}
+			const responses = await Protocol.processBatch(body, async (request) => JsonRpc.processSingle(requestHandler, request, createMessage(), finished));
+			const result = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+			return result.length === 0 ? undefined : result;
+		} else {
+			return JsonRpc.processSingle(requestHandler, body as JsonRpcRequest, createMessage(), finished);
+		}
+	}
+
+	/** Process a single request, returning undefined for notifications. */
+	private static async processSingle(requestHandler: RequestHandler, request: JsonRpcRequest, message: Message,
+		finished: (message: Message, type?: string) => void): Promise<JsonRpcResponse | undefined> {
+
+		//Check if it is a valid request.
+		if (typeof request !== "object" || request === null || request.jsonrpc !== "2.0" || typeof request.method !== "string" ||
+			(request.id !== undefined && request.id !== null && typeof request.id !== "string" && typeof request.id !== "number")) {
+			message.statusCode = 400;
+			finished(message);
+			return { jsonrpc: "2.0", id: null, error: { code: JsonRpcErrorCode.InvalidRequest, message: "Invalid Request", data: { status: 400 } } };
+		}
+		const isNotification = request.id === undefined;
+		const id = request.id ?? null;
+		if (id !== null) {
+			message.id = id.toString();
+		}
+
+		const type = request.method.toLowerCase();
+		if (!requestHandler.hasMessageHandler(type)) {
+			message.statusCode = 400;
+			finished(message, type);
+			return isNotification ? undefined : {
+				jsonrpc: "2.0", id, error: { code: JsonRpcErrorCode.MethodNotFound, message: `Method not found: ${request.method}`, data: { status: 400 } }
+			};
+		}
+		if (!requestHandler.doNotLog.has(type)) {
+			//Fastest way to remove sessionId. When using a different name use addMessageHandler with log=false
+			const toLog = JSON.stringify(request.params)?.slice(0, 1000).replace(/sessionId"\s*:\s*"(.{5})[^"]+/, `sessionId":"$1***`);
+			Log.debug(`Received message ${message.version}:${type}: ${toLog}`);
+		}
+
+		let response: JsonRpcResponse;
+		try {
+			const result = await requestHandler.receiveMessage(type, request.params, message);
+			message.statusCode = message.statusCode ?? 200;
+			response = { jsonrpc: "2.0", id, result: result ?? null };
+		} catch (error) {
+			//Differentiate between internal errors and rejects caused by bad client requests/other info.
+			if (error instanceof Error) {
+				Log.warn("Request data that resulted in error: " + JSON.stringify(request.params));
+				Log.error(`Error occured during request of type ${message.version}:${type}.`, error);
+				//Do not send actual error message for safety.
+				message.statusCode = message.statusCode ?? 500;
+				response = { jsonrpc: "2.0", id, error: { code: JsonRpcErrorCode.InternalError, message: "Error occured during request.", data: { status: message.statusCode } } };
+			} else {
+				//Set the status code as a client error if not yet set.
+				message.statusCode = message.statusCode ?? 400;
+				const code = message.invalidData === true ? JsonRpcErrorCode.InvalidParams :
+					message.statusCode >= 500 ? JsonRpcErrorCode.InternalError : JsonRpcErrorCode.ServerError;
+				response = { jsonrpc: "2.0", id, error: { code, message: String(error), data: { status: message.statusCode } } };
+			}
+		}
+		if (message.latencyStart !== undefined) {
+			Metrics.recordLatency(message.latencyStart);
+		}
+		finished(message, type);
+		if (message.log) {
+			Log.debug(`Send response: ${JSON.stringify(response).slice(0, 2000)}`);
+		}
+		return isNotification ? undefined : response;
+	}
+}
\ No newline at end of file
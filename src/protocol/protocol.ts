@@ -12,6 +12,8 @@ import { Worker } from "cluster";
 import { Log } from "@coinversable/validana-core";
 import { Config } from "../config";
 import { RequestHandler } from "../core/requesthandler";
+import { Metrics } from "../core/metrics";
+import { Principal } from "../core/auth";
 import { IncomingMessage, ServerResponse } from "http";
 
 export interface Message<T = ServerResponse | WebSocket> {
@@ -25,6 +27,13 @@ export interface Message<T = ServerResponse | WebSocket> {
 	responseHeaders?: { [key: string]: string };
 	/** The status code of the response. Defaults to 200 (or 500 in case of an error). */
 	statusCode?: number;
+	/**
+	 * For how long (in seconds) http clients may cache a successful response to a get request.
+	 * If set the response gets an ETag and Cache-Control header, use 0 to let clients revalidate every time using the ETag.
+	 */
+	cacheDuration?: number;
+	/** The ETag of a successful response to a get request. If not set but cacheDuration is, it is computed from the response. */
+	etag?: string;
 	/** Log the response of this message? Defaults to true. */
 	log: boolean;
 	/** What protocol was used to send this message? */
@@ -35,6 +44,10 @@ export interface Message<T = ServerResponse | WebSocket> {
 	session: { [key: string]: any };
 	/** Message id? Only for websocket connections where there can be multiple requests in one connection. */
 	id?: string;
+	/** The authenticated client, set if one of the authenticators of the request handler accepted its credentials. */
+	principal?: Principal;
+	/** Set if the request data did not match the schema of the message handler. */
+	invalidData?: boolean;
 }
 
 /**
@@ -97,6 +110,38 @@ export abstract class Protocol {
 	 */
 	protected abstract sendError(message: Message, error: string): void;
 
+	/**
+	 * Record the result and latency of a message for its api version and message type, once it has been responded to.
+	 * Types without a message handler are recorded as unknown, so clients cannot create new metrics.
+	 * @param protocol The name of the protocol in the metrics.
+	 * @param statusCode The status code of the response, defaults to the status code of the message.
+	 */
+	protected recordMessage(message: Message, type: string | undefined, protocol: string, statusCode: number = message.statusCode ?? 200): void {
+		const isKnown = type !== undefined && this.apiVersions.get(message.version)?.hasMessageHandler(type) === true;
+		Metrics.recordRequest(message.version, isKnown ? type : "unknown", protocol, statusCode, message.latencyStart);
+	}
+
+	/**
+	 * Handle the requests of a batch, with at most VSERVER_BATCHCONCURRENCY requests being handled at the same time.
+	 * @returns The results in the same order as the requests.
+	 */
+	public static async processBatch<T, R>(entries: T[], handler: (entry: T) => Promise<R>): Promise<R[]> {
+		const results: R[] = new Array(entries.length);
+		let next = 0;
+		const processNext = async (): Promise<void> => {
+			while (next < entries.length) {
+				const index = next++;
+				results[index] = await handler(entries[index]);
+			}
+		};
+		const processes: Array<Promise<void>> = [];
+		for (let i = 0; i < Math.min(Config.get().VSERVER_BATCHCONCURRENCY, entries.length); i++) {
+			processes.push(processNext());
+		}
+		await Promise.all(processes);
+		return results;
+	}
+
 	/**
 	 * Shutdown the server. Will emit "closed" if the server was not yet closed, or if this close is permanent and earlier it was not.
 	 * @param permanent Should the server permanently stay down or not.
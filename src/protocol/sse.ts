@@ -0,0 +1,260 @@
+/*!
+ * @license
+ * Copyright Coinversable B.V. All Rights Reserved.
+ *
+ * Use of this source code is governed by a AGPLv3-style license that can be
+ * found in the LICENSE file at https://validana.io/license
+ */
+
+import * as querystring from "querystring";
+import * as http from "http";
+import { Worker } from "cluster";
+import { Log } from "@coinversable/validana-core";
+import { Protocol, Message } from "./protocol";
+import { Config } from "../config";
+import { RequestHandler } from "../core/requesthandler";
+import { HttpServer } from "../core/httpserver";
+import { Metrics } from "../core/metrics";
+import { Cors } from "../core/cors";
+import { Health } from "../core/health";
+import { ServerEventEmitter } from "../core/events";
+
+/** Interface for responding. */
+interface ResponseOrPushMessage {
+	status: number;
+	error?: string;
+	data?: unknown;
+	pushType?: string;
+}
+
+/**
+ * The protocol is responsible for server-sent events: GET requests that accept a text/event-stream.
+ * The response is send as a 'response' event. If the request subscribed to push messages the stream stays open for them,
+ *  which are send as events named after their push type, until the client closes the stream.
+ * Otherwise (including if the request failed) a 'close' event follows and the server closes the stream.
+ * Clients should close their EventSource upon the 'close' event, as it would otherwise reconnect and repeat the request.
+ * Clients that do not are told to wait a while before reconnecting.
+ * It can share its http server with the HttpProtocol, which will leave these requests to this protocol.
+ */
+export class SseProtocol extends Protocol {
+	private static readonly headerOptionsSuccess = {
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		"Connection": "keep-alive"
+	};
+	/** How long (in milliseconds) clients should wait before reconnecting once the server closed the stream. */
+	private static readonly retryAfterClose = 60000;
+	private readonly httpServer: HttpServer;
+	private readonly maxPayloadSize: number;
+	private readonly timeout: number;
+
+	/** Active streams. */
+	private readonly connections: http.ServerResponse[] = [];
+
+	/**
+	 * Creates a new Protocol.
+	 * @param worker The worker that created this protocol.
+	 * @param portOrServer A server to use or a port for which a new server will be created.
+	 */
+	constructor(worker: Worker, portOrServer: number | HttpServer, requestHandlers: Map<string, RequestHandler>) {
+		super(worker, portOrServer instanceof HttpServer ? portOrServer.port : portOrServer, requestHandlers);
+		this.maxPayloadSize = Config.get().VSERVER_MAXPAYLOADSIZE;
+		this.timeout = Config.get().VSERVER_TIMEOUT;
+
+		this.httpServer = portOrServer instanceof HttpServer ? portOrServer : new HttpServer(portOrServer);
+		this.httpServer.on("close", (permanent, graceful) => {
+			if (permanent) {
+				for (const connection of this.connections) {
+					if (!connection.writableEnded) {
+						connection.end();
+					}
+					//If this is not a graceful shutdown destroy the socket after a short timeout.
+					if (!graceful) {
+						const timeout = setTimeout(() => connection.socket?.destroy(), 5000);
+						connection.on("close", () => clearTimeout(timeout));
+					}
+				}
+			}
+		});
+
+		this.httpServer.claimRequests(SseProtocol.isEventStream);
+		this.httpServer.server.on("request", (request: http.IncomingMessage, response: http.ServerResponse) => {
+			if (!SseProtocol.isEventStream(request)) {
+				return;
+			}
+			//Remove timeout now request has come in.
+			request.socket.setTimeout(0);
+
+			if (request.url!.length > this.maxPayloadSize) {
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(414, Cors.getHeaders(request));
+				response.end();
+				return;
+			}
+			let url;
+			try {
+				url = decodeURI(request.url!);
+			} catch (error) {
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
+				response.end("Invalid request url.");
+				return;
+			}
+
+			const index = url.indexOf("?");
+			const path = index === -1 ? url : url.slice(0, index);
+			const urlParts = path.match(/[^\/]+/g);
+
+			//See if it has an api version and request type
+			if (urlParts === null || urlParts.length < 2) {
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
+				response.end("Missing api version or request type.");
+				return;
+			}
+
+			//Get the api version and requestType
+			const versionIndex = urlParts.findIndex((part) => this.apiVersions.has(part));
+			if (versionIndex === -1) {
+				Metrics.stats.requestsClientErrorRest++;
+				response.writeHead(400, Cors.getHeaders(request));
+				response.end("Api version missing or not supported.");
+				return;
+			}
+			const version = urlParts[versionIndex];
+			const type = urlParts.slice(versionIndex + 1).join("/").toLowerCase();
+
+			let data: unknown;
+			let query = "";
+			if (index !== -1) {
+				query = url.slice(index + 1);
+				try {
+					data = JSON.parse(query);
+				} catch (error) {
+					data = query.indexOf("=") !== -1 ? querystring.parse(query) : query;
+				}
+			}
+
+			//Start the stream, the status of the request itself is part of the response event.
+			response.writeHead(200, Object.assign({}, SseProtocol.headerOptionsSuccess, Cors.getHeaders(request, version)));
+			this.connections.push(response);
+			//Send a comment once in a while to prevent proxies from closing the stream.
+			const keepAlive = setInterval(() => response.write(":\n\n"), this.timeout * 1000);
+			response.on("close", () => {
+				clearInterval(keepAlive);
+				this.connections.splice(this.connections.indexOf(response), 1);
+			});
+
+			//Use a route if there is no message type for the path.
+			const RH = this.apiVersions.get(version)!;
+			const routed = RH.hasMessageHandler(type) ? undefined : RH.matchRoute("GET", urlParts.slice(versionIndex + 1), data);
+			this.requestHandler({
+				log: true, request, response, version, protocol: this, latencyStart: Date.now(), session: {}
+			}, routed?.type ?? type, routed?.data ?? data, query);
+		});
+	}
+
+	/** Whether a request is a request for server-sent events. Health requests are answered by the server, whatever they accept. */
+	private static isEventStream(request: http.IncomingMessage): boolean {
+		return request.method === "GET" && request.headers.accept?.includes("text/event-stream") === true && !Health.isHealthRequest(request);
+	}
+
+	/** Handle a request by creating a request handler and providing it with the request data. */
+	private async requestHandler(message: Message<http.ServerResponse>, type: string, data: unknown, dataString: string): Promise<void> {
+		const RH = this.apiVersions.get(message.version)!;
+		if (!RH.doNotLog.has(type)) {
+			//Fastest way to remove sessionId. When using a different name use addMessageHandler with log=false
+			const toLog = dataString.slice(0, 1000).replace(/sessionId("\s*:\s*"|=)(.{5})[^"&]+/, `sessionId$1$2***`);
+			Log.debug(`Received message ${message.version}:${type}: ${toLog}`);
+		}
+
+		try {
+			this.sendResponse(message, await RH.receiveMessage(type, data, message));
+			if (!ServerEventEmitter.hasSubscriptions(message)) {
+				this.closeStream(message);
+			}
+		} catch (error) {
+			//Differentiate between internal errors and rejects caused by bad client requests/other info.
+			if (error instanceof Error) {
+				Log.warn("Request data that resulted in error: " + dataString);
+				Log.error(`Error occured during request of type ${message.version}:${type}.`, error);
+				//Do not send actual error message for safety.
+				if (message.statusCode === undefined) {
+					message.statusCode = 500;
+				}
+				this.sendError(message, "Error occured during request.");
+			} else {
+				//Set the status code as a client error if not yet set.
+				if (message.statusCode === undefined) {
+					message.statusCode = 400;
+				}
+				this.sendError(message, String(error));
+			}
+		}
+		if (message.latencyStart !== undefined) {
+			Metrics.recordLatency(message.latencyStart);
+		}
+		this.recordMessage(message, type, "sse");
+	}
+
+	/** Write an event to the stream. */
+	private sendEvent(message: Message<http.ServerResponse>, event: string, eventData: ResponseOrPushMessage): void {
+		const dataString = JSON.stringify(eventData);
+		if (message.log) {
+			Log.debug(`Send ${event}: ${dataString.slice(0, 2000)}`);
+		}
+		message.response.write(`event: ${event}\ndata: ${dataString}\n\n`);
+	}
+
+	/** Tell the client the stream is closed on purpose and close it. */
+	private closeStream(message: Message<http.ServerResponse>): void {
+		if (!message.response.writableEnded && !message.request.socket.destroyed) {
+			message.response.end(`retry: ${SseProtocol.retryAfterClose}\nevent: close\ndata: {}\n\n`);
+		}
+	}
+
+	public shutdown(permanent: boolean, graceful: boolean): Promise<void> {
+		return this.httpServer.shutdown(permanent, graceful);
+	}
+
+	/** Send the response as 'response' event. As the stream has already started message.responseHeaders is ignored. */
+	protected sendResponse(message: Message<http.ServerResponse>, data: unknown): void {
+		if (!message.response.writableEnded && !message.request.socket.destroyed) {
+			const statusCode = message.statusCode ?? 200;
+			if (statusCode < 400) {
+				Metrics.stats.requestsSuccessRest++;
+			} else if (statusCode < 500) {
+				Metrics.stats.requestsClientErrorRest++;
+			} else {
+				Metrics.stats.requestsServerErrorRest++;
+			}
+			this.sendEvent(message, "response", { status: statusCode, data });
+		}
+	}
+
+	public sendPush(message: Message<http.ServerResponse>, pushType: string, data: unknown): void {
+		if (!message.response.writableEnded && !message.request.socket.destroyed) {
+			this.sendEvent(message, pushType, { pushType, data, status: message.statusCode ?? 200 });
+		} else {
+			Log.warn("Cannot send push, stream already closed.");
+		}
+	}
+
+	public canPush(): true {
+		return true;
+	}
+
+	/** Send the error as 'response' event and close the stream, as no pushes will follow. */
+	protected sendError(message: Message<http.ServerResponse>, error: string): void {
+		if (!message.response.writableEnded && !message.request.socket.destroyed) {
+			const statusCode = message.statusCode ?? 500;
+			if (statusCode >= 400 && statusCode < 500) {
+				Metrics.stats.requestsClientErrorRest++;
+			} else { //sendError should only be used for errors
+				Metrics.stats.requestsServerErrorRest++;
+			}
+			this.sendEvent(message, "response", { status: statusCode, error });
+			this.closeStream(message);
+		}
+	}
+}
\ No newline at end of file
@@ -14,11 +14,14 @@ import { Config } from "../config";
 import { Protocol, Message } from "./protocol";
 import { HttpServer } from "../core/httpserver";
 import { Metrics } from "../core/metrics";
+import { JsonRpc } from "./jsonrpc";
 
 /** Simple extension to see if the WebSocket is still connected. */
 class ExtendedWebSocket extends WebSocket {
 	public isAlive: boolean = false;
 	public startTime: number | undefined;
+	/** Whether this connection uses JSON-RPC (by connecting to /version/jsonrpc) */
+	public isJsonRpc: boolean = false;
 }
 
 /** Expected request message format. */
@@ -78,7 +81,9 @@ export class WebsocketProtocol extends Protocol {
 		this.timeout = Config.get().VSERVER_TIMEOUT;
 		this.serverOptions = {
 			maxPayload: Config.get().VSERVER_MAXPAYLOADSIZE === 0 ? undefined : Config.get().VSERVER_MAXPAYLOADSIZE,
-			server: this.httpServer.server
+			server: this.httpServer.server,
+			//Only messages of at least the threshold are compressed.
+			perMessageDeflate: Config.get().VSERVER_WSCOMPRESSION ? { threshold: Config.get().VSERVER_COMPRESSIONTHRESHOLD } : false
 		};
 
 		this.wsServer = new WebSocket.Server(this.serverOptions);
@@ -163,6 +168,7 @@ export class WebsocketProtocol extends Protocol {
 			}
 
 			const RH = this.apiVersions.get(version)!;
+			client.isJsonRpc = urlParts[urlParts.indexOf(version) + 1] === JsonRpc.type;
 			client.isAlive = true;
 			client.startTime = Date.now();
 			Metrics.stats.wsConnections++;
@@ -192,6 +198,11 @@ export class WebsocketProtocol extends Protocol {
 				//If the request is not valid json.
 				const requestString = requestData instanceof Array ?
 					requestData.map((part) => part.toString()).join("") : requestData.toString();
+				if (client.isJsonRpc) {
+					return this.jsonRpcHandler(client, RH, requestString, () => ({
+						log: true, protocol: this, request, version, latencyStart: Date.now(), response: client, session
+					}));
+				}
 				let requestMessage: RequestMessage;
 				try {
 					requestMessage = JSON.parse(requestString);
@@ -226,6 +237,9 @@ export class WebsocketProtocol extends Protocol {
 						Log.warn("Request data that resulted in error: " + requestString);
 						Log.error(`Error occured during request of type ${version}: ${type}.`, error);
 						//Do not send actual error message for safety.
+						if (message.statusCode === undefined) {
+							message.statusCode = 500;
+						}
 						this.sendError(message, "Error occured during request.");
 					} else {
 						//Set the status code as a client error if not yet set.
@@ -238,10 +252,44 @@ export class WebsocketProtocol extends Protocol {
 				if (message.latencyStart !== undefined) {
 					Metrics.recordLatency(message.latencyStart);
 				}
+				this.recordMessage(message, type, "ws");
 			});
 		});
 	}
 
+	/** Handle a JSON-RPC request (or batch of requests). */
+	private async jsonRpcHandler(client: ExtendedWebSocket, RH: RequestHandler, requestString: string, createMessage: () => Message<WebSocket>): Promise<void> {
+		let result;
+		let request: unknown;
+		try {
+			request = JSON.parse(requestString);
+		} catch (error) {
+			Metrics.stats.requestsClientErrorWs++;
+			result = JsonRpc.parseError();
+		}
+		if (result === undefined) {
+			result = await JsonRpc.process(RH, request, createMessage, (message, type) => {
+				this.recordMessage(message, type, "ws");
+				if (message.statusCode! < 400) {
+					Metrics.stats.requestsSuccessWs++;
+				} else if (message.statusCode! < 500) {
+					Metrics.stats.requestsClientErrorWs++;
+				} else {
+					Metrics.stats.requestsServerErrorWs++;
+				}
+			});
+		}
+
+		//Nothing to respond with in case of only notifications.
+		if (result !== undefined) {
+			if (client.readyState === WebSocket.OPEN) {
+				client.send(JSON.stringify(result));
+			} else {
+				Log.warn(`Cannot send message, client state: ${client.readyState}`);
+			}
+		}
+	}
+
 	public shutdown(permanent: boolean, graceful: boolean): Promise<void> {
 		return this.httpServer.shutdown(permanent, graceful);
 	}
@@ -278,7 +326,7 @@ export class WebsocketProtocol extends Protocol {
 
 	public sendPush(message: Message<WebSocket>, pushType: string, data: any): void {
 		if (message.response.readyState === WebSocket.OPEN) {
-			const pushString = JSON.stringify({
+			const pushString = JSON.stringify((message.response as ExtendedWebSocket).isJsonRpc ? JsonRpc.notification(pushType, data) : {
 				pushType,
 				data,
 				status: message.statusCode ?? 200